@@ -2,83 +2,196 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useRef, useState} from 'react';
-import {EditVideoPage} from './components/EditVideoPage';
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  AnimateImageModal,
+  AnimateImageRequest,
+} from './components/AnimateImageModal';
+import {ApiKeySettings} from './components/ApiKeySettings';
+import {Command, CommandBar} from './components/CommandBar';
+import {EditVideoPage, RemixEdit} from './components/EditVideoPage';
 import {ErrorModal} from './components/ErrorModal';
+import {FailureHistory} from './components/FailureHistory';
 import {
   ArrowUpTrayIcon,
-  MagnifyingGlassIcon,
+  KeyIcon,
+  PhotoIcon,
   VideoCameraIcon,
 } from './components/icons';
-import {SavingProgressPage} from './components/SavingProgressPage';
+import {JobsTray} from './components/JobsTray';
+import {LibraryFilters} from './components/LibraryFilters';
+import {LineageView} from './components/LineageView';
+import {PromptReviewModal} from './components/PromptReviewModal';
+import {SelectionBar} from './components/SelectionBar';
+import {UndoToast} from './components/UndoToast';
+import {VariationCompare} from './components/VariationCompare';
+import {VideoCardActions} from './components/VideoCard';
+import {VideoDetails} from './components/VideoDetailsForm';
 import {VideoGrid} from './components/VideoGrid';
-import {VideoPlayer} from './components/VideoPlayer';
+import {FrameSeedRequest, VideoPlayer} from './components/VideoPlayer';
 import {MOCK_VIDEOS} from './constants';
-import {ErrorDetails, Video} from './types';
+import {
+  isJobFinished,
+  JobRunner,
+  useGenerationQueue,
+} from './hooks/useGenerationQueue';
+import {
+  clearFailedAttempts,
+  deleteCollection,
+  deletePendingOperation,
+  deleteVideo,
+  loadCollections,
+  loadFailedAttempts,
+  loadLibrary,
+  loadPendingOperations,
+  loadSeedAnnotations,
+  saveCollection,
+  saveFailedAttempt,
+  savePendingOperation,
+  saveSeedAnnotations,
+  saveVideo,
+  updateVideo,
+} from './services/libraryDb';
+import {
+  deleteVideoFile,
+  saveManifest,
+  saveVideoFile,
+} from './services/libraryDisk';
+import {
+  filterLibrary,
+  getAllTags,
+  isFilterActive,
+  LibraryFilter,
+} from './services/libraryFilters';
+import {getErrorDetails, getPartialFilterDetails} from './services/errors';
+import {imageInputToDataUrl} from './services/frames';
+import {deleteMedia, getMediaBlob, putMedia} from './services/mediaStore';
+import {searchVideos, SearchResult} from './services/search';
+import {semanticSearch} from './services/semanticSearch';
+import {
+  describeVideo,
+  generateVideos,
+  getModelName,
+} from './services/generation';
+import {
+  Collection,
+  ErrorDetails,
+  FailedAttempt,
+  GenerationInfo,
+  GenerationJob,
+  GenerationOptions,
+  GenerationRequest,
+  Video,
+  VideoAnnotations,
+} from './types';
 
-import {GeneratedVideo, GoogleGenAI} from '@google/genai';
+/** How long typing has to pause before a semantic search is sent. */
+const SEMANTIC_SEARCH_DELAY_MS = 400;
 
-const VEO_MODEL_NAME = 'veo-3.0-fast-generate-001';
+/** How many matching videos the command bar offers actions for. */
+const MAX_COMMAND_VIDEOS = 3;
 
-const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
+/** Shown for an upload until its description has been written. */
+const UPLOAD_PLACEHOLDER_DESCRIPTION = 'A user-uploaded video.';
 
-// ---
+const SEED_VIDEO_IDS = new Set(MOCK_VIDEOS.map((video) => video.id));
 
-function bloblToBase64(blob: Blob) {
-  return new Promise<string>(async (resolve) => {
-    const reader = new FileReader();
-    reader.onload = () => {
-      const url = reader.result as string;
-      resolve(url.split(',')[1]);
-    };
-    reader.readAsDataURL(blob);
-  });
+/** How long "retry later" waits after the quota ran out. */
+const QUOTA_RETRY_DELAY_MS = 60 * 1000;
+
+/** How long a deletion can be undone before the videos are gone for good. */
+const UNDO_DELETE_MS = 6000;
+
+/** How long changes to the library settle before its manifest is written. */
+const MANIFEST_SAVE_DELAY_MS = 1000;
+
+/**
+ * Videos taken out of the library whose deletion can still be undone, with
+ * the place each had in it. They stay stored until the deletion is final.
+ */
+interface PendingDeletion {
+  entries: {video: Video; index: number}[];
 }
 
 // ---
 
-async function generateVideoFromText(
-  prompt: string,
-  numberOfVideos = 1,
-  aspectRatio: '16:9' | '9:16' | '1:1' = '16:9',
-): Promise<string[]> {
-  let operation = await ai.models.generateVideos({
-    model: VEO_MODEL_NAME,
-    prompt,
-    config: {
-      numberOfVideos,
-      aspectRatio,
-    },
-  });
+function persistVideo(video: Video, blob: Blob) {
+  saveVideo(video, blob).catch((error) =>
+    console.error('Failed to save video to the library:', error),
+  );
+}
 
-  while (!operation.done) {
-    await new Promise((resolve) => setTimeout(resolve, 10000));
-    console.log('...Generating...');
-    operation = await ai.operations.getVideosOperation({operation});
-  }
+function persistVideoUpdate(video: Video) {
+  updateVideo(video).catch((error) =>
+    console.error('Failed to update video in the library:', error),
+  );
+}
 
-  if (operation?.response) {
-    const videos = operation.response?.generatedVideos;
-    if (videos === undefined || videos.length === 0) {
-      throw new Error('No videos generated');
-    }
+/** Keeps a generated video on the proxy server's disk, in proxy mode. */
+function persistVideoFile(id: string, blob: Blob) {
+  saveVideoFile(id, blob).catch((error) =>
+    console.error('Failed to save the video to disk:', error),
+  );
+}
 
-    return await Promise.all(
-      videos.map(async (generatedVideo: GeneratedVideo) => {
-        const url = decodeURIComponent(generatedVideo.video.uri);
-        const res = await fetch(`${url}&key=${process.env.API_KEY}`);
-        if (!res.ok) {
-          throw new Error(
-            `Failed to fetch video: ${res.status} ${res.statusText}`,
-          );
-        }
-        const blob = await res.blob();
-        return bloblToBase64(blob);
-      }),
-    );
-  } else {
-    throw new Error('No videos generated');
+/** Removes a video from storage and frees its binary. */
+function discardVideo(video: Video) {
+  deleteMedia(video.id);
+  deleteVideo(video.id).catch((error) =>
+    console.error('Failed to delete video from the library:', error),
+  );
+  deleteVideoFile(video.id).catch((error) =>
+    console.error('Failed to delete the video from disk:', error),
+  );
+}
+
+function persistCollection(collection: Collection) {
+  saveCollection(collection).catch((error) =>
+    console.error('Failed to save the collection:', error),
+  );
+}
+
+/** Returns the binary of a video, downloading it for seed videos. */
+async function fetchVideoBlob(video: Video) {
+  const storedBlob = getMediaBlob(video.id);
+  if (storedBlob) return storedBlob;
+  const res = await fetch(video.videoUrl);
+  return res.blob();
+}
+
+/** Saves a video to the user's device, named after its title. */
+async function downloadVideo(video: Video) {
+  let blob: Blob;
+  try {
+    blob = await fetchVideoBlob(video);
+  } catch (error) {
+    // Videos from other origins can't be fetched without CORS headers, so
+    // leave the download to the browser.
+    window.open(video.videoUrl, '_blank', 'noopener');
+    return;
   }
+  const extension = blob.type.includes('webm') ? 'webm' : 'mp4';
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${video.title.replace(/[\\/:*?"<>|]+/g, '_')}.${extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Strips the queue's bookkeeping from a job, leaving what was requested. */
+function toGenerationRequest(job: GenerationJob): GenerationRequest {
+  const {
+    id,
+    status,
+    videoIds,
+    retryAt,
+    operationName,
+    startedAt,
+    error,
+    ...request
+  } = job;
+  return request;
 }
 
 /**
@@ -86,15 +199,172 @@ async function generateVideoFromText(
  * It manages the state of videos, playing videos, editing videos and error handling.
  */
 export const App: React.FC = () => {
-  const [videos, setVideos] = useState<Video[]>(MOCK_VIDEOS);
+  // User videos only; the seed videos are never persisted.
+  const [videos, setVideos] = useState<Video[]>([]);
   const [playingVideo, setPlayingVideo] = useState<Video | null>(null);
   const [editingVideo, setEditingVideo] = useState<Video | null>(null);
-  const [isSaving, setIsSaving] = useState(false);
+  const [isAnimatingImage, setIsAnimatingImage] = useState(false);
+  const [lineageVideo, setLineageVideo] = useState<Video | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [generationError, setGenerationError] = useState<ErrorDetails | null>(
+  const [isSemanticSearch, setIsSemanticSearch] = useState(false);
+  const [semanticResults, setSemanticResults] = useState<
+    SearchResult[] | null
+  >(null);
+  const [semanticSearchError, setSemanticSearchError] = useState(false);
+  const [libraryFilter, setLibraryFilter] = useState<LibraryFilter>({});
+  /** The selected videos while selecting, otherwise null. */
+  const [selectedIds, setSelectedIds] = useState<Set<string> | null>(null);
+  const [pendingDeletion, setPendingDeletion] =
+    useState<PendingDeletion | null>(null);
+  /** The batch of variations being compared. */
+  const [comparingBatchId, setComparingBatchId] = useState<string | null>(
     null,
   );
+  const [collections, setCollections] = useState<Collection[]>([]);
+  /** Tags, favorites and ratings of the seed videos, by video id. */
+  const [seedAnnotations, setSeedAnnotations] = useState<
+    Record<string, VideoAnnotations>
+  >({});
+  /** The typed idea being reviewed before it is generated. */
+  const [promptIdea, setPromptIdea] = useState<string | null>(null);
+  /** The failed generation whose error is shown. */
+  const [failedJob, setFailedJob] = useState<GenerationJob | null>(null);
+  const [failedAttempts, setFailedAttempts] = useState<FailedAttempt[]>([]);
+  const [isShowingFailures, setIsShowingFailures] = useState(false);
+  const [isShowingKeySettings, setIsShowingKeySettings] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // The latest videos, for async work that outlives the render it started in.
+  const videosRef = useRef(videos);
+  videosRef.current = videos;
+  const collectionsRef = useRef(collections);
+  collectionsRef.current = collections;
+  // The manifest on disk isn't written until the library it lists is loaded.
+  const isLibraryLoadedRef = useRef(false);
+
+  /** Applies `changes` to a user video in the grid, player and library. */
+  const updateUserVideo = (id: string, changes: Partial<Video>) => {
+    const video = videosRef.current.find((v) => v.id === id);
+    if (!video) return;
+    const updatedVideo = {...video, ...changes};
+    videosRef.current = videosRef.current.map((v) =>
+      v.id === id ? updatedVideo : v,
+    );
+    setVideos((currentVideos) =>
+      currentVideos.map((v) => (v.id === id ? {...v, ...changes} : v)),
+    );
+    setPlayingVideo((current) =>
+      current?.id === id ? {...current, ...changes} : current,
+    );
+    persistVideoUpdate(updatedVideo);
+  };
+
+  /**
+   * Has the model describe an uploaded video so it can be remixed. A
+   * description the user typed in the meantime is kept.
+   */
+  const captionVideo = async (id: string, blob: Blob) => {
+    const isStillPending = () =>
+      videosRef.current.find((v) => v.id === id)?.captionStatus === 'pending';
+    try {
+      const description = await describeVideo(blob);
+      if (isStillPending()) {
+        updateUserVideo(id, {description, captionStatus: undefined});
+      }
+    } catch (error) {
+      console.error('Failed to describe the video:', error);
+      if (isStillPending()) {
+        updateUserVideo(id, {captionStatus: 'failed'});
+      }
+    }
+  };
+
+  useEffect(() => {
+    // StrictMode runs this twice in development; only the last run may add
+    // the loaded videos, or each would be listed and captioned twice.
+    let ignore = false;
+    loadLibrary()
+      .then((storedVideos) => {
+        if (ignore) return;
+        const loadedVideos = storedVideos.map(({video, blob}) => {
+          putMedia(video.id, blob);
+          return video;
+        });
+        isLibraryLoadedRef.current = true;
+        // Keep anything added while the library was still loading.
+        setVideos((currentVideos) => [...currentVideos, ...loadedVideos]);
+        videosRef.current = [...videosRef.current, ...loadedVideos];
+        // Finish descriptions that were interrupted by a reload.
+        for (const {video, blob} of storedVideos) {
+          if (video.captionStatus === 'pending') {
+            captionVideo(video.id, blob);
+          }
+        }
+      })
+      .catch((error) => console.error('Failed to load the library:', error));
+    loadCollections()
+      .then(setCollections)
+      .catch((error) => console.error('Failed to load collections:', error));
+    loadSeedAnnotations()
+      .then(setSeedAnnotations)
+      .catch((error) =>
+        console.error('Failed to load the gallery annotations:', error),
+      );
+    loadFailedAttempts()
+      .then(setFailedAttempts)
+      .catch((error) =>
+        console.error('Failed to load the failed attempts:', error),
+      );
+    return () => {
+      ignore = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isLibraryLoadedRef.current) return;
+    const timer = setTimeout(() => {
+      saveManifest(videos).catch((error) =>
+        console.error('Failed to save the manifest to disk:', error),
+      );
+    }, MANIFEST_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [videos]);
+
+  useEffect(() => {
+    setSemanticResults(null);
+    setSemanticSearchError(false);
+    const query = searchQuery.trim();
+    if (!isSemanticSearch || !query) return;
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      semanticSearch([...videos, ...MOCK_VIDEOS], query, controller.signal)
+        .then(setSemanticResults)
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          console.error('Semantic search failed:', error);
+          setSemanticSearchError(true);
+        });
+    }, SEMANTIC_SEARCH_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [isSemanticSearch, searchQuery, videos]);
+
+  useEffect(() => {
+    if (!pendingDeletion) return;
+    const finish = () => {
+      finishDeletion(pendingDeletion);
+      setPendingDeletion(null);
+    };
+    const timer = setTimeout(finish, UNDO_DELETE_MS);
+    // Closing the page makes the deletion final, too.
+    window.addEventListener('pagehide', finish);
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('pagehide', finish);
+    };
+  }, [pendingDeletion]);
 
   const handleUploadClick = () => {
     fileInputRef.current?.click();
@@ -104,15 +374,19 @@ export const App: React.FC = () => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    const videoUrl = URL.createObjectURL(file);
     const newVideo: Video = {
       id: self.crypto.randomUUID(),
       title: file.name.replace(/\.[^/.]+$/, ''), // Use filename as title
-      description: 'A user-uploaded video.',
-      videoUrl,
+      description: UPLOAD_PLACEHOLDER_DESCRIPTION,
+      createdAt: Date.now(),
+      captionStatus: 'pending',
     };
 
+    putMedia(newVideo.id, file);
     setVideos((currentVideos) => [newVideo, ...currentVideos]);
+    videosRef.current = [newVideo, ...videosRef.current];
+    persistVideo(newVideo, file);
+    captionVideo(newVideo.id, file);
 
     // Reset input value to allow re-uploading the same file
     if (event.target) {
@@ -133,150 +407,570 @@ export const App: React.FC = () => {
     setEditingVideo(video); // Open edit page
   };
 
+  const handleUpdateDetails = (video: Video, details: VideoDetails) => {
+    // A description typed by the user replaces the one being written.
+    updateUserVideo(
+      video.id,
+      details.description === video.description
+        ? details
+        : {...details, captionStatus: undefined},
+    );
+  };
+
+  const handleDuplicateVideo = async (video: Video) => {
+    try {
+      const blob = await fetchVideoBlob(video);
+      // The copy is not one of the variations generated with the original.
+      const {batchId, ...details} = video;
+      const copy: Video = {
+        ...details,
+        id: self.crypto.randomUUID(),
+        title: `${video.title} (copy)`,
+        createdAt: Date.now(),
+      };
+      putMedia(copy.id, blob);
+      setVideos((currentVideos) => [copy, ...currentVideos]);
+      videosRef.current = [copy, ...videosRef.current];
+      persistVideo(copy, blob);
+      if (copy.captionStatus === 'pending') {
+        captionVideo(copy.id, blob);
+      }
+    } catch (error) {
+      console.error('Failed to duplicate the video:', error);
+    }
+  };
+
+  /** Deletes videos for good, once their deletion can't be undone anymore. */
+  const finishDeletion = (deletion: PendingDeletion) => {
+    const ids = new Set(deletion.entries.map(({video}) => video.id));
+    deletion.entries.forEach(({video}) => discardVideo(video));
+    const changedCollections = collectionsRef.current
+      .filter((collection) => collection.videoIds.some((id) => ids.has(id)))
+      .map((collection) => ({
+        ...collection,
+        videoIds: collection.videoIds.filter((id) => !ids.has(id)),
+      }));
+    changedCollections.forEach(persistCollection);
+    setCollections((current) =>
+      current.map(
+        (collection) =>
+          changedCollections.find(({id}) => id === collection.id) ??
+          collection,
+      ),
+    );
+  };
+
+  /** Takes videos out of the library, leaving a moment to undo it. */
+  const handleDeleteVideos = (videosToDelete: Video[]) => {
+    const ids = new Set(videosToDelete.map((video) => video.id));
+    const entries = videosRef.current
+      .map((video, index) => ({video, index}))
+      .filter(({video}) => ids.has(video.id));
+    if (entries.length === 0) return;
+    if (pendingDeletion) {
+      finishDeletion(pendingDeletion);
+    }
+    setVideos((currentVideos) => currentVideos.filter((v) => !ids.has(v.id)));
+    videosRef.current = videosRef.current.filter((v) => !ids.has(v.id));
+    setPlayingVideo((current) =>
+      current && ids.has(current.id) ? null : current,
+    );
+    setSelectedIds(null);
+    setPendingDeletion({entries});
+  };
+
+  const handleUndoDelete = () => {
+    if (!pendingDeletion) return;
+    const restore = (currentVideos: Video[]) => {
+      const restored = [...currentVideos];
+      for (const {video, index} of pendingDeletion.entries) {
+        restored.splice(index, 0, video);
+      }
+      return restored;
+    };
+    setVideos(restore);
+    videosRef.current = restore(videosRef.current);
+    setPendingDeletion(null);
+  };
+
+  const handleToggleSelect = (video: Video) => {
+    setSelectedIds((current) => {
+      const selected = new Set(current);
+      if (!selected.delete(video.id)) {
+        selected.add(video.id);
+      }
+      return selected;
+    });
+  };
+
+  const handleRetryCaption = (video: Video) => {
+    updateUserVideo(video.id, {captionStatus: 'pending'});
+    fetchVideoBlob(video)
+      .then((blob) => captionVideo(video.id, blob))
+      .catch((error) => {
+        console.error('Failed to read the video:', error);
+        updateUserVideo(video.id, {captionStatus: 'failed'});
+      });
+  };
+
+  const handleAnnotateVideo = (video: Video, changes: VideoAnnotations) => {
+    if (!SEED_VIDEO_IDS.has(video.id)) {
+      updateUserVideo(video.id, changes);
+      return;
+    }
+    const annotations = {...seedAnnotations[video.id], ...changes};
+    setSeedAnnotations((current) => ({...current, [video.id]: annotations}));
+    setPlayingVideo((current) =>
+      current?.id === video.id ? {...current, ...changes} : current,
+    );
+    saveSeedAnnotations(video.id, annotations).catch((error) =>
+      console.error('Failed to save the gallery annotations:', error),
+    );
+  };
+
+  const handleCreateCollection = (video: Video, name: string) => {
+    const collection: Collection = {
+      id: self.crypto.randomUUID(),
+      name,
+      videoIds: [video.id],
+      createdAt: Date.now(),
+    };
+    setCollections((current) => [...current, collection]);
+    persistCollection(collection);
+  };
+
+  const handleToggleCollection = (video: Video, collection: Collection) => {
+    const updatedCollection = {
+      ...collection,
+      videoIds: collection.videoIds.includes(video.id)
+        ? collection.videoIds.filter((id) => id !== video.id)
+        : [...collection.videoIds, video.id],
+    };
+    setCollections((current) =>
+      current.map((c) => (c.id === collection.id ? updatedCollection : c)),
+    );
+    persistCollection(updatedCollection);
+  };
+
+  const handleDeleteCollection = (collection: Collection) => {
+    if (!window.confirm(`Delete the collection "${collection.name}"?`)) {
+      return;
+    }
+    setCollections((current) => current.filter((c) => c.id !== collection.id));
+    setLibraryFilter((current) =>
+      current.collectionId === collection.id
+        ? {...current, collectionId: undefined}
+        : current,
+    );
+    deleteCollection(collection.id).catch((error) =>
+      console.error('Failed to delete the collection:', error),
+    );
+  };
+
   const handleCancelEdit = () => {
     setEditingVideo(null); // Close edit page, return to grid
   };
 
-  const generateAndAddNewVideos = async (
-    prompt: string,
-    numberOfVideos: number,
-    baseTitle: string,
-    baseDescription: string,
-    aspectRatio: '16:9' | '9:16' | '1:1' = '16:9',
-  ) => {
-    setIsSaving(true);
-    setGenerationError(null);
+  const recordFailedAttempt = (job: GenerationJob, error: ErrorDetails) => {
+    const attempt: FailedAttempt = {
+      id: job.id,
+      prompt: job.prompt,
+      title: job.title,
+      error,
+      failedAt: Date.now(),
+    };
+    setFailedAttempts((current) => [attempt, ...current]);
+    saveFailedAttempt(attempt).catch((saveError) =>
+      console.error('Failed to save the failed attempt:', saveError),
+    );
+  };
 
+  const runGenerationJob: JobRunner = async (job, update, signal) => {
     try {
-      const videoObjects = await generateVideoFromText(
-        prompt,
-        numberOfVideos,
-        aspectRatio,
-      );
+      const result = await generateVideos(toGenerationRequest(job), {
+        signal,
+        operationName: job.operationName,
+        startedAt: job.startedAt,
+        onOperationStarted: (operationName, startedAt) => {
+          update({operationName, startedAt});
+          savePendingOperation({
+            ...toGenerationRequest(job),
+            id: job.id,
+            operationName,
+            startedAt,
+          }).catch((error) =>
+            console.error('Failed to save the pending operation:', error),
+          );
+        },
+        onPhase: (phase) => update({status: phase}),
+      });
+      const blobs = result.videos;
 
-      if (!videoObjects || videoObjects.length === 0) {
+      if (!blobs || blobs.length === 0) {
         throw new Error('Video generation returned no data.');
       }
 
-      const mimeType = 'video/mp4';
+      const poster = job.image ? imageInputToDataUrl(job.image) : undefined;
+      const createdAt = Date.now();
+      const generation: GenerationInfo = {
+        prompt: job.prompt,
+        editInstruction: job.editInstruction,
+        options: {
+          numberOfVideos: job.numberOfVideos,
+          aspectRatio: job.aspectRatio,
+          quality: job.quality,
+          duration: job.duration,
+          negativePrompt: job.negativePrompt,
+          seed: job.seed,
+          personGeneration: job.personGeneration,
+          resolution: job.resolution,
+        },
+        model: getModelName(job),
+      };
 
-      const newVideos: Video[] = videoObjects.map((videoSrc, index) => {
-        const src = `data:${mimeType};base64,${videoSrc}`;
+      const newVideos: Video[] = blobs.map((blob, index) => {
         const title =
-          numberOfVideos > 1
-            ? `${baseTitle} (${index + 1}/${numberOfVideos})`
-            : baseTitle;
+          blobs.length > 1
+            ? `${job.title} (${index + 1}/${blobs.length})`
+            : job.title;
 
+        const id = self.crypto.randomUUID();
+        putMedia(id, blob);
         return {
-          id: self.crypto.randomUUID(),
+          id,
           title,
-          description: baseDescription,
-          videoUrl: src,
+          description: job.description,
+          poster,
+          parentId: job.parentId,
+          createdAt,
+          generation,
+          batchId: blobs.length > 1 ? job.id : undefined,
         };
       });
 
       setVideos((currentVideos) => [...newVideos, ...currentVideos]);
-      setPlayingVideo(newVideos[0]); // Go to the new video
+      // Save in reverse so the first variation is the newest in the library.
+      for (let i = newVideos.length - 1; i >= 0; i--) {
+        persistVideo(newVideos[i], blobs[i]);
+        persistVideoFile(newVideos[i].id, blobs[i]);
+      }
+      // Some variations may have been filtered; the job still succeeded.
+      const filterDetails =
+        result.safety && getPartialFilterDetails(result.safety);
+      update({
+        status: 'done',
+        videoIds: newVideos.map((video) => video.id),
+        error: filterDetails,
+      });
+      if (filterDetails) {
+        recordFailedAttempt(job, filterDetails);
+      }
     } catch (error) {
-      console.error('Video generation failed:', error);
-      // Default to the most common error as per original app behavior
-      let errorDetails: ErrorDetails = {
-        title: 'Generation Failed',
-        messages: [
-          'Veo 3 is only available on the Paid Tier.',
-          'Please select your Cloud Project to get started.',
-        ],
-        type: 'api_key',
-      };
-
-      if (error instanceof Error) {
-        if (error.message.includes('No videos generated')) {
-          errorDetails = {
-            title: 'Generation Failed',
-            messages: [
-              'The model did not return any video.',
-              'This could be due to your prompt. Please try a different prompt.',
-            ],
-            type: 'generation_failed',
-          };
-        } else if (error.message.includes('Failed to fetch video')) {
-          errorDetails = {
-            title: 'Download Failed',
-            messages: [
-              'The generated video could not be downloaded.',
-              'Please check your network connection and try again.',
-            ],
-            type: 'network',
-          };
-        }
+      if (signal.aborted) {
+        update({status: 'cancelled'});
+        return;
       }
-
-      setGenerationError(errorDetails);
+      console.error('Video generation failed:', error);
+      const errorDetails = getErrorDetails(error);
+      // The tray shows the failure; its details open the error modal.
+      update({status: 'failed', error: errorDetails});
+      recordFailedAttempt(job, errorDetails);
     } finally {
-      setIsSaving(false);
+      deletePendingOperation(job.id).catch((error) =>
+        console.error('Failed to delete the pending operation:', error),
+      );
     }
   };
 
-  const handleSaveEdit = async (
-    originalVideo: Video,
-    options: {
-      numberOfVideos: number;
-      quality: 'fast' | 'quality';
-      duration: 'short' | 'medium' | 'long';
-      aspectRatio: '16:9' | '9:16' | '1:1';
-    },
-  ) => {
-    setEditingVideo(null);
-    let promptText = originalVideo.description;
+  const {
+    jobs,
+    enqueue: enqueueGeneration,
+    cancel: cancelJob,
+    dismiss: dismissJob,
+  } = useGenerationQueue(runGenerationJob, {
+    onCancelQueued: (id) =>
+      deletePendingOperation(id).catch((error) =>
+        console.error('Failed to delete the pending operation:', error),
+      ),
+  });
 
-    if (options.quality === 'quality') {
-      promptText += '\n\nhigh quality, cinematic, 4k';
-    }
+  useEffect(() => {
+    // Resume polling generations that were in flight before a reload.
+    loadPendingOperations()
+      .then((operations) =>
+        operations.forEach(({id, operationName, startedAt, ...request}) =>
+          enqueueGeneration(request, {id, operationName, startedAt}),
+        ),
+      )
+      .catch((error) =>
+        console.error('Failed to load pending operations:', error),
+      );
+  }, [enqueueGeneration]);
 
-    if (options.duration === 'short') {
-      promptText += '\n\n(Short video, ~4 seconds)';
-    } else if (options.duration === 'medium') {
-      promptText += '\n\n(Medium video, ~10 seconds)';
-    } else if (options.duration === 'long') {
-      promptText += '\n\n(Long video, ~15 seconds)';
+  const handleViewJob = (job: GenerationJob) => {
+    const video = videos.find((v) => v.id === job.videoIds[0]);
+    if (video?.batchId) {
+      setComparingBatchId(video.batchId);
+    } else if (video) {
+      setPlayingVideo(video);
     }
+    dismissJob(job.id);
+  };
 
-    await generateAndAddNewVideos(
-      promptText,
-      options.numberOfVideos,
-      `Remix of "${originalVideo.title}"`,
-      originalVideo.description,
-      options.aspectRatio,
+  /**
+   * Runs a failed generation again. After a `delayMs`, the tray shows it
+   * waiting until then, and it can be cancelled meanwhile.
+   */
+  const handleRetryFailedJob = (delayMs = 0) => {
+    const request = toGenerationRequest(failedJob);
+    dismissJob(failedJob.id);
+    setFailedJob(null);
+    enqueueGeneration(
+      request,
+      delayMs > 0 ? {retryAt: Date.now() + delayMs} : undefined,
     );
   };
 
-  const handleGenerateFromSearch = async (prompt: string) => {
-    await generateAndAddNewVideos(
-      prompt,
-      1,
-      `Generated from: "${prompt}"`,
+  /**
+   * Reopens where the failed prompt was written: the remix editor for remixes
+   * and the prompt review for prompts typed in the command bar.
+   */
+  const handleEditFailedPrompt = () => {
+    const parent = videosById.get(failedJob.parentId);
+    dismissJob(failedJob.id);
+    setFailedJob(null);
+    if (parent) {
+      setEditingVideo(parent);
+    } else {
+      setPromptIdea(failedJob.prompt);
+    }
+  };
+
+  const handleCompareVariations = (video: Video) => {
+    setPlayingVideo(null);
+    setComparingBatchId(video.batchId);
+  };
+
+  const handleSetArchived = (video: Video, isArchived: boolean) => {
+    updateUserVideo(video.id, {isArchived});
+  };
+
+  const handleArchiveVariations = (rest: Video[]) => {
+    rest.forEach((video) => updateUserVideo(video.id, {isArchived: true}));
+    setComparingBatchId(null);
+  };
+
+  const handleDeleteVariations = (rest: Video[]) => {
+    handleDeleteVideos(rest);
+    setComparingBatchId(null);
+  };
+
+  const handleSaveEdit = (
+    originalVideo: Video,
+    options: GenerationOptions,
+    edit: RemixEdit,
+  ) => {
+    setEditingVideo(null);
+    enqueueGeneration({
+      ...options,
+      prompt: originalVideo.description,
+      title: `Remix of "${originalVideo.title}"`,
+      description: originalVideo.description,
+      parentId: originalVideo.id,
+      editInstruction: edit.instruction,
+      regionEdit: edit.regionEdit,
+    });
+  };
+
+  const handleGenerateFromSearch = (prompt: string) => {
+    setPromptIdea(prompt.trim());
+  };
+
+  const handleGenerateFromPrompt = (
+    prompt: string,
+    options: GenerationOptions,
+  ) => {
+    enqueueGeneration({
+      ...options,
       prompt,
-    );
+      title: `Generated from: "${promptIdea || prompt}"`,
+      description: prompt,
+    });
+    setPromptIdea(null);
     setSearchQuery(''); // Clear search after generation
   };
 
-  const handleSearchKeyDown = (
-    event: React.KeyboardEvent<HTMLInputElement>,
-  ) => {
-    if (event.key === 'Enter' && searchQuery.trim() !== '') {
-      handleGenerateFromSearch(searchQuery);
-    }
+  const handleAnimateImage = (request: AnimateImageRequest) => {
+    setIsAnimatingImage(false);
+    enqueueGeneration({
+      prompt: request.prompt,
+      numberOfVideos: 1,
+      aspectRatio: request.aspectRatio,
+      title: `Animated: "${request.imageName}"`,
+      description: request.prompt,
+      image: request.image,
+    });
+  };
+
+  const handleGenerateFromFrame = (video: Video, request: FrameSeedRequest) => {
+    setPlayingVideo(null);
+    const isContinuation = request.mode === 'continue';
+    enqueueGeneration({
+      prompt: isContinuation
+        ? `${video.description}\n\nContinue this scene seamlessly from the first frame: ${request.prompt}`
+        : request.prompt,
+      numberOfVideos: 1,
+      aspectRatio: request.aspectRatio,
+      title: isContinuation
+        ? `Continuation of "${video.title}"`
+        : `From a frame of "${video.title}"`,
+      description: request.prompt,
+      parentId: video.id,
+      image: request.frame,
+    });
+  };
+
+  const handleExportVideo = (video: Video) => {
+    downloadVideo(video).catch((error) =>
+      console.error('Failed to export the video:', error),
+    );
   };
 
-  const filteredVideos = videos.filter(
-    (video) =>
-      video.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      video.description.toLowerCase().includes(searchQuery.toLowerCase()),
+  const seedVideos = MOCK_VIDEOS.map((video) => ({
+    ...video,
+    ...seedAnnotations[video.id],
+  }));
+  const allVideos = [...videos, ...seedVideos];
+  const query = searchQuery.trim();
+
+  // Keyword results are shown until the semantic ones arrive, and instead of
+  // them if the embedding model can't be reached. Semantic results are looked
+  // up again so they reflect edits made since the search ran.
+  const videosById = new Map(allVideos.map((video) => [video.id, video]));
+  const searchResults = (
+    isSemanticSearch && query && semanticResults
+      ? semanticResults
+      : searchVideos(allVideos, query)
+  )
+    .map((result) => videosById.get(result.video.id))
+    .filter(Boolean);
+  const filteredVideos = filterLibrary(
+    searchResults,
+    libraryFilter,
+    collections,
+    SEED_VIDEO_IDS,
   );
 
-  if (isSaving) {
-    return <SavingProgressPage />;
-  }
+  // Seed videos aren't stored, so only the user's own can be changed.
+  const isPlayingUserVideo =
+    playingVideo !== null && videos.some((v) => v.id === playingVideo.id);
+  const hasPlayingVariations =
+    playingVideo?.batchId !== undefined &&
+    videos.some(
+      (v) => v.batchId === playingVideo.batchId && v.id !== playingVideo.id,
+    );
+  const comparedVideos = comparingBatchId
+    ? videos.filter((video) => video.batchId === comparingBatchId)
+    : [];
+
+  const userVideoIds = new Set(videos.map((video) => video.id));
+  const commands: Command[] = [
+    {
+      id: 'search',
+      group: 'Library',
+      hint: 'Search',
+      label: query ? `Videos matching "${query}"` : 'All videos',
+      run: () => {},
+    },
+    ...(query ? filteredVideos.slice(0, MAX_COMMAND_VIDEOS) : []).flatMap(
+      (video): Command[] => [
+        {
+          id: `play-${video.id}`,
+          group: 'Library',
+          hint: 'Play',
+          label: video.title,
+          run: () => handlePlayVideo(video),
+        },
+        {
+          id: `remix-${video.id}`,
+          group: 'Library',
+          hint: 'Remix',
+          label: video.title,
+          run: () => handleStartEdit(video),
+        },
+        {
+          id: `export-${video.id}`,
+          group: 'Library',
+          hint: 'Export',
+          label: video.title,
+          run: () => handleExportVideo(video),
+        },
+        ...(userVideoIds.has(video.id)
+          ? [
+              {
+                id: `delete-${video.id}`,
+                group: 'Library' as const,
+                hint: 'Delete',
+                label: video.title,
+                run: () => handleDeleteVideos([video]),
+              },
+            ]
+          : []),
+      ],
+    ),
+    {
+      id: 'failures',
+      group: 'Library',
+      hint: 'History',
+      label: 'Failed attempts',
+      run: () => setIsShowingFailures(true),
+    },
+    {
+      id: 'generate',
+      group: 'Create',
+      hint: 'Generate',
+      label: query
+        ? `New video from "${query}"...`
+        : 'New video from a prompt...',
+      run: () => handleGenerateFromSearch(query),
+    },
+    {
+      id: 'animate',
+      group: 'Create',
+      hint: 'Animate',
+      label: 'Animate an image...',
+      run: () => setIsAnimatingImage(true),
+    },
+    {
+      id: 'upload',
+      group: 'Create',
+      hint: 'Upload',
+      label: 'Upload a video...',
+      run: handleUploadClick,
+    },
+    {
+      id: 'api-keys',
+      group: 'Settings',
+      hint: 'Manage',
+      label: 'API keys',
+      run: () => setIsShowingKeySettings(true),
+    },
+  ];
+
+  const pendingJobs = jobs.filter((job) => !isJobFinished(job));
+
+  const cardActions: VideoCardActions = {
+    onUpdateDetails: handleUpdateDetails,
+    onDuplicate: handleDuplicateVideo,
+    onDelete: (video) => handleDeleteVideos([video]),
+  };
+  // Only the user's own videos in view can be selected, and deleted.
+  const selectableVideos = filteredVideos.filter((video) =>
+    userVideoIds.has(video.id),
+  );
+  const selectedVideos = selectableVideos.filter((video) =>
+    selectedIds?.has(video.id),
+  );
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 font-sans">
@@ -300,21 +994,22 @@ export const App: React.FC = () => {
                 </p>
               </div>
               <div className="w-full md:w-auto flex flex-col sm:flex-row items-center gap-4 md:flex-grow md:justify-end">
-                <div className="relative w-full sm:w-auto md:max-w-xs lg:max-w-sm">
-                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                    <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
-                  </div>
-                  <input
-                    type="search"
-                    name="search"
-                    id="search"
-                    className="block w-full bg-gray-800 border border-gray-700 rounded-lg py-3 pl-10 pr-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 sm:text-sm transition"
-                    placeholder="Search or enter a prompt..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    onKeyDown={handleSearchKeyDown}
-                  />
-                </div>
+                <CommandBar
+                  query={searchQuery}
+                  onQueryChange={setSearchQuery}
+                  commands={commands}
+                />
+                <button
+                  onClick={() => setIsSemanticSearch((value) => !value)}
+                  className={`flex-shrink-0 py-3 px-4 rounded-lg text-sm font-semibold transition-colors ${
+                    isSemanticSearch
+                      ? 'bg-purple-600/30 text-purple-200 ring-1 ring-purple-500'
+                      : 'bg-gray-800 text-gray-400 hover:text-white border border-gray-700'
+                  }`}
+                  aria-pressed={isSemanticSearch}
+                  title="Search by meaning instead of exact words">
+                  Semantic
+                </button>
                 <button
                   onClick={handleUploadClick}
                   className="flex-shrink-0 flex items-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-bold py-3 px-5 rounded-lg transition-colors text-base"
@@ -322,6 +1017,20 @@ export const App: React.FC = () => {
                   <ArrowUpTrayIcon className="w-6 h-6" />
                   <span>Upload Video</span>
                 </button>
+                <button
+                  onClick={() => setIsAnimatingImage(true)}
+                  className="flex-shrink-0 flex items-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-5 rounded-lg transition-colors text-base"
+                  aria-label="Animate an image from your device">
+                  <PhotoIcon className="w-6 h-6" />
+                  <span>Animate Image</span>
+                </button>
+                <button
+                  onClick={() => setIsShowingKeySettings(true)}
+                  className="flex-shrink-0 p-3 rounded-lg bg-gray-800 text-gray-400 hover:text-white border border-gray-700 transition-colors"
+                  aria-label="Manage API keys"
+                  title="API keys">
+                  <KeyIcon className="w-6 h-6" />
+                </button>
               </div>
             </div>
           </header>
@@ -333,8 +1042,57 @@ export const App: React.FC = () => {
               className="hidden"
               accept="video/*"
             />
+            {isSemanticSearch && query && (
+              <p className="text-sm text-gray-400 mb-4">
+                {semanticSearchError
+                  ? 'Semantic search is unavailable, showing keyword matches.'
+                  : semanticResults
+                    ? 'Showing videos closest in meaning.'
+                    : 'Searching by meaning...'}
+              </p>
+            )}
+            <div className="flex items-start gap-4">
+              <div className="flex-1">
+                <LibraryFilters
+                  filter={libraryFilter}
+                  onChange={setLibraryFilter}
+                  collections={collections}
+                  tags={getAllTags(allVideos)}
+                  onDeleteCollection={handleDeleteCollection}
+                />
+              </div>
+              {selectedIds === null && videos.length > 0 && (
+                <button
+                  onClick={() => setSelectedIds(new Set())}
+                  className="flex-shrink-0 px-3 py-1 rounded-full text-sm font-medium bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors">
+                  Select
+                </button>
+              )}
+            </div>
+            {selectedIds !== null && (
+              <SelectionBar
+                selectedCount={selectedVideos.length}
+                selectableCount={selectableVideos.length}
+                onSelectAll={() =>
+                  setSelectedIds(
+                    new Set(selectableVideos.map((video) => video.id)),
+                  )
+                }
+                onDelete={() => handleDeleteVideos(selectedVideos)}
+                onCancel={() => setSelectedIds(null)}
+              />
+            )}
             {filteredVideos.length > 0 ? (
-              <VideoGrid videos={filteredVideos} onPlayVideo={handlePlayVideo} />
+              <VideoGrid
+                videos={filteredVideos}
+                pendingJobs={pendingJobs}
+                onPlayVideo={handlePlayVideo}
+                manageableIds={userVideoIds}
+                actions={cardActions}
+                selectedIds={selectedIds}
+                onToggleSelect={handleToggleSelect}
+                highlight={query}
+              />
             ) : searchQuery ? (
               <div className="text-center py-20 px-6">
                 <h2 className="text-2xl font-semibold text-white mb-2">
@@ -351,28 +1109,158 @@ export const App: React.FC = () => {
                   <span>Generate Video</span>
                 </button>
               </div>
+            ) : isFilterActive(libraryFilter) ? (
+              <div className="text-center py-20 px-6">
+                <p className="text-gray-400 mb-6">
+                  No videos match these filters.
+                </p>
+                <button
+                  onClick={() => setLibraryFilter({})}
+                  className="bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2 px-5 rounded-lg transition-colors">
+                  Show all videos
+                </button>
+              </div>
             ) : (
-              <VideoGrid videos={filteredVideos} onPlayVideo={handlePlayVideo} />
+              <VideoGrid
+                videos={filteredVideos}
+                pendingJobs={pendingJobs}
+                onPlayVideo={handlePlayVideo}
+                manageableIds={userVideoIds}
+                actions={cardActions}
+                selectedIds={selectedIds}
+                onToggleSelect={handleToggleSelect}
+              />
             )}
           </main>
         </div>
       )}
 
+      <JobsTray
+        jobs={jobs}
+        onViewJob={handleViewJob}
+        onShowError={setFailedJob}
+        onCancelJob={cancelJob}
+        onDismissJob={dismissJob}
+      />
+
+      {promptIdea !== null && (
+        <PromptReviewModal
+          initialPrompt={promptIdea}
+          onGenerate={handleGenerateFromPrompt}
+          onClose={() => setPromptIdea(null)}
+        />
+      )}
+
+      {isAnimatingImage && (
+        <AnimateImageModal
+          onAnimate={handleAnimateImage}
+          onClose={() => setIsAnimatingImage(false)}
+        />
+      )}
+
       {playingVideo && (
         <VideoPlayer
           video={playingVideo}
           onClose={handleClosePlayer}
           onEdit={handleStartEdit}
+          onShowLineage={(video) => {
+            setPlayingVideo(null);
+            setLineageVideo(video);
+          }}
+          onGenerateFromFrame={handleGenerateFromFrame}
+          onUpdateDetails={isPlayingUserVideo ? handleUpdateDetails : undefined}
+          onDuplicate={isPlayingUserVideo ? handleDuplicateVideo : undefined}
+          onDelete={isPlayingUserVideo ? cardActions.onDelete : undefined}
+          onSetArchived={isPlayingUserVideo ? handleSetArchived : undefined}
+          onCompareVariations={
+            hasPlayingVariations ? handleCompareVariations : undefined
+          }
+          onRetryCaption={isPlayingUserVideo ? handleRetryCaption : undefined}
+          collections={collections}
+          onAnnotate={handleAnnotateVideo}
+          onToggleCollection={handleToggleCollection}
+          onCreateCollection={handleCreateCollection}
         />
       )}
 
-      {generationError && (
+      {comparedVideos.length > 1 && (
+        <VariationCompare
+          key={comparingBatchId}
+          videos={comparedVideos}
+          onArchiveRest={handleArchiveVariations}
+          onDeleteRest={handleDeleteVariations}
+          onClose={() => setComparingBatchId(null)}
+        />
+      )}
+
+      {pendingDeletion && (
+        <UndoToast
+          message={
+            pendingDeletion.entries.length === 1
+              ? `Deleted "${pendingDeletion.entries[0].video.title}"`
+              : `Deleted ${pendingDeletion.entries.length} videos`
+          }
+          onUndo={handleUndoDelete}
+          onDismiss={() => {
+            finishDeletion(pendingDeletion);
+            setPendingDeletion(null);
+          }}
+        />
+      )}
+
+      {lineageVideo && (
+        <LineageView
+          video={lineageVideo}
+          videos={allVideos}
+          onSelectVideo={(video) => {
+            setLineageVideo(null);
+            setPlayingVideo(video);
+          }}
+          onClose={() => setLineageVideo(null)}
+        />
+      )}
+
+      {failedJob?.error && (
         <ErrorModal
-          error={generationError}
-          onClose={() => setGenerationError(null)}
-          onSelectKey={async () => await window.aistudio?.openSelectKey()}
+          error={failedJob.error}
+          onClose={() => setFailedJob(null)}
+          onSelectKey={() => {
+            setFailedJob(null);
+            setIsShowingKeySettings(true);
+          }}
+          onRetry={() => handleRetryFailedJob()}
+          onRetryLater={() => handleRetryFailedJob(QUOTA_RETRY_DELAY_MS)}
+          onEditPrompt={
+            // Prompts for a frame can't be edited apart from the frame.
+            failedJob.image ? undefined : handleEditFailedPrompt
+          }
+          onShowHistory={() => {
+            setFailedJob(null);
+            setIsShowingFailures(true);
+          }}
+        />
+      )}
+
+      {isShowingFailures && (
+        <FailureHistory
+          attempts={failedAttempts}
+          onEditPrompt={(attempt) => {
+            setIsShowingFailures(false);
+            setPromptIdea(attempt.prompt);
+          }}
+          onClear={() => {
+            setFailedAttempts([]);
+            clearFailedAttempts().catch((error) =>
+              console.error('Failed to clear the failed attempts:', error),
+            );
+          }}
+          onClose={() => setIsShowingFailures(false)}
         />
       )}
+
+      {isShowingKeySettings && (
+        <ApiKeySettings onClose={() => setIsShowingKeySettings(false)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useRef, useState} from 'react';
+import {blobToImageInput, imageInputToDataUrl} from '../services/frames';
+import {AspectRatio, ImageInput} from '../types';
+import {PhotoIcon, XMarkIcon} from './icons';
+
+const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg'];
+
+export interface AnimateImageRequest {
+  image: ImageInput;
+  imageName: string;
+  prompt: string;
+  aspectRatio: AspectRatio;
+}
+
+interface AnimateImageModalProps {
+  onAnimate: (request: AnimateImageRequest) => void;
+  onClose: () => void;
+}
+
+/**
+ * A modal for turning a still image into a video: the user picks a PNG or
+ * JPEG, describes the motion, and the image is used as the first frame.
+ */
+export const AnimateImageModal: React.FC<AnimateImageModalProps> = ({
+  onAnimate,
+  onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [image, setImage] = useState<ImageInput | null>(null);
+  const [imageName, setImageName] = useState('');
+  const [prompt, setPrompt] = useState('');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>('16:9');
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      setFileError('Please choose a PNG or JPEG image.');
+      return;
+    }
+    setFileError(null);
+    try {
+      // Decoding it turns away files that only claim to be images.
+      (await createImageBitmap(file)).close();
+      setImage(await blobToImageInput(file));
+      setImageName(file.name.replace(/\.[^/.]+$/, ''));
+    } catch (error) {
+      console.error('Failed to read the image:', error);
+      setFileError("This image couldn't be read. Please choose another one.");
+    }
+  };
+
+  const canAnimate = image !== null && prompt.trim() !== '';
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="animate-image-title">
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-lg relative p-6 md:p-8 m-4"
+        onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white z-10 p-2 rounded-full bg-transparent hover:bg-gray-700 transition-colors"
+          aria-label="Close">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+        <h2
+          id="animate-image-title"
+          className="text-2xl font-bold text-white mb-1">
+          Animate Image
+        </h2>
+        <p className="text-gray-400 mb-6">
+          Your image becomes the first frame of the new video.
+        </p>
+
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFileChange}
+          className="hidden"
+          accept={ACCEPTED_IMAGE_TYPES.join(',')}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full mb-2 aspect-video flex items-center justify-center bg-gray-900 border-2 border-dashed border-gray-700 hover:border-purple-500 rounded-lg overflow-hidden transition-colors"
+          aria-label={image ? 'Choose a different image' : 'Choose an image'}>
+          {image ? (
+            <img
+              src={imageInputToDataUrl(image)}
+              alt={imageName}
+              className="w-full h-full object-contain"
+            />
+          ) : (
+            <span className="flex flex-col items-center gap-2 text-gray-400">
+              <PhotoIcon className="w-10 h-10" />
+              <span className="text-sm">Choose a PNG or JPEG</span>
+            </span>
+          )}
+        </button>
+        {fileError && <p className="text-sm text-red-400 mb-2">{fileError}</p>}
+
+        <label
+          htmlFor="animate-prompt"
+          className="block text-sm font-medium text-gray-300 mt-4 mb-2">
+          Describe the motion
+        </label>
+        <textarea
+          id="animate-prompt"
+          rows={3}
+          className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder="e.g., the camera slowly pushes in as leaves drift past"
+        />
+
+        <label className="block text-sm font-medium text-gray-300 mt-4 mb-2">
+          Aspect Ratio
+        </label>
+        <div className="flex rounded-lg bg-gray-700 p-1">
+          {(['16:9', '9:16'] as AspectRatio[]).map((value) => (
+            <button
+              key={value}
+              onClick={() => setAspectRatio(value)}
+              className={`w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                aspectRatio === value
+                  ? 'bg-purple-600 text-white'
+                  : 'text-gray-300 hover:bg-gray-600'
+              }`}>
+              {value}
+            </button>
+          ))}
+        </div>
+
+        <div className="mt-8 flex justify-end gap-4">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 rounded-lg bg-gray-600 hover:bg-gray-700 text-white font-semibold transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() =>
+              onAnimate({image, imageName, prompt: prompt.trim(), aspectRatio})
+            }
+            disabled={!canAnimate}
+            className="px-6 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            Animate
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
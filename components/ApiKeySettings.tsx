@@ -0,0 +1,251 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {
+  addApiKey,
+  forgetApiKey,
+  getActiveApiKey,
+  loadApiKeys,
+  maskApiKey,
+  setActiveApiKey,
+} from '../services/apiKeys';
+import {getApiKeyTestMessage} from '../services/errors';
+import {REQUIRES_API_KEY, testApiKey} from '../services/generation';
+import {XMarkIcon} from './icons';
+
+interface ApiKeySettingsProps {
+  onClose: () => void;
+}
+
+/** The outcome of testing a key; `error` explains why it failed. */
+type KeyTest =
+  | {status: 'testing'}
+  | {status: 'valid'}
+  | {status: 'invalid'; error: string};
+
+/** Tests of the key being added are stored under this id. */
+const NEW_KEY_ID = 'new';
+
+const KeyTestResult: React.FC<{test?: KeyTest}> = ({test}) => {
+  if (!test) return null;
+  if (test.status === 'testing') {
+    return <p className="mt-2 text-sm text-gray-400">Testing the key...</p>;
+  }
+  if (test.status === 'valid') {
+    return (
+      <p className="mt-2 text-sm text-green-400">
+        The key is valid. Veo also needs billing enabled for its project.
+      </p>
+    );
+  }
+  return <p className="mt-2 text-sm text-red-400">{test.error}</p>;
+};
+
+/**
+ * Lets the user add Gemini API keys, test them, switch between them and
+ * forget them. Keys are kept in this browser only, for good or just for the
+ * session. Generations use whichever key is active when they call the API.
+ */
+export const ApiKeySettings: React.FC<ApiKeySettingsProps> = ({onClose}) => {
+  const [keys, setKeys] = useState(loadApiKeys);
+  const [activeId, setActiveId] = useState(() => getActiveApiKey()?.id);
+  const [newKey, setNewKey] = useState('');
+  const [newLabel, setNewLabel] = useState('');
+  const [sessionOnly, setSessionOnly] = useState(false);
+  const [tests, setTests] = useState<Record<string, KeyTest>>({});
+  const abortControllerRef = useRef<AbortController>(null);
+
+  useEffect(() => {
+    // Made here, so the controller StrictMode aborts on its trial unmount
+    // isn't the one the tests use.
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    return () => abortController.abort();
+  }, []);
+
+  const refresh = () => {
+    setKeys(loadApiKeys());
+    setActiveId(getActiveApiKey()?.id);
+  };
+
+  /** Tests `apiKey`, reporting under `id`, and resolves to whether it works. */
+  const runTest = async (id: string, apiKey: string) => {
+    const {signal} = abortControllerRef.current;
+    setTests((current) => ({...current, [id]: {status: 'testing'}}));
+    try {
+      await testApiKey(apiKey, signal);
+      setTests((current) => ({...current, [id]: {status: 'valid'}}));
+      return true;
+    } catch (error) {
+      if (signal.aborted) return false;
+      console.error('API key test failed:', error);
+      setTests((current) => ({
+        ...current,
+        [id]: {status: 'invalid', error: getApiKeyTestMessage(error)},
+      }));
+      return false;
+    }
+  };
+
+  const saveNewKey = () => {
+    const entry = addApiKey(newKey.trim(), newLabel, sessionOnly);
+    setTests(({[NEW_KEY_ID]: newKeyTest, ...current}) => ({
+      ...current,
+      ...(newKeyTest?.status === 'valid' ? {[entry.id]: newKeyTest} : {}),
+    }));
+    setNewKey('');
+    setNewLabel('');
+    setSessionOnly(false);
+    refresh();
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await runTest(NEW_KEY_ID, newKey.trim())) {
+      saveNewKey();
+    }
+  };
+
+  const handleForget = (id: string) => {
+    forgetApiKey(id);
+    setTests(({[id]: _, ...current}) => current);
+    refresh();
+  };
+
+  const newKeyTest = tests[NEW_KEY_ID];
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="api-key-settings-title">
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-xl relative p-6 m-4 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white z-10 p-2 rounded-full bg-transparent hover:bg-gray-700 transition-colors"
+          aria-label="Close API key settings">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+        <h2
+          id="api-key-settings-title"
+          className="text-2xl font-bold text-white mb-1">
+          API keys
+        </h2>
+        <p className="text-gray-400 mb-4">
+          {REQUIRES_API_KEY
+            ? 'Veo needs a Gemini API key from a Cloud project with billing. Keys are kept in this browser only.'
+            : "The configured backend doesn't need a key from this browser."}
+        </p>
+        <div className="overflow-y-auto">
+          {keys.length > 0 && (
+            <ul className="space-y-3 mb-6">
+              {keys.map((entry) => (
+                <li key={entry.id} className="bg-gray-900/60 rounded-lg p-4">
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-semibold text-white truncate">
+                        {entry.label}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {maskApiKey(entry.key)}
+                        {entry.sessionOnly && ' · This session only'}
+                      </p>
+                    </div>
+                    {entry.id === activeId ? (
+                      <span className="flex-shrink-0 text-xs font-semibold text-purple-300 bg-purple-600/30 rounded-full px-2 py-1">
+                        Active
+                      </span>
+                    ) : (
+                      <button
+                        onClick={() => {
+                          setActiveApiKey(entry.id);
+                          refresh();
+                        }}
+                        className="flex-shrink-0 text-sm text-purple-400 hover:text-purple-300">
+                        Use
+                      </button>
+                    )}
+                    {REQUIRES_API_KEY && (
+                      <button
+                        onClick={() => runTest(entry.id, entry.key)}
+                        disabled={tests[entry.id]?.status === 'testing'}
+                        className="flex-shrink-0 text-sm text-gray-300 hover:text-white disabled:opacity-50">
+                        Test
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleForget(entry.id)}
+                      className="flex-shrink-0 text-sm text-red-400 hover:text-red-300">
+                      Forget
+                    </button>
+                  </div>
+                  <KeyTestResult test={tests[entry.id]} />
+                </li>
+              ))}
+            </ul>
+          )}
+          {/* A backend that takes no key from here would fail every test. */}
+          {REQUIRES_API_KEY && (
+            <form onSubmit={handleAdd} className="space-y-3">
+              <h3 className="text-lg font-semibold text-white">Add a key</h3>
+              <input
+                type="password"
+                value={newKey}
+                onChange={(e) => {
+                  setNewKey(e.target.value);
+                  // An earlier result was for a different key.
+                  setTests(({[NEW_KEY_ID]: _, ...current}) => current);
+                }}
+                placeholder="API key"
+                autoComplete="off"
+                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                aria-label="API key"
+              />
+              <input
+                type="text"
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                placeholder="Name (optional)"
+                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                aria-label="Key name"
+              />
+              <label className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={sessionOnly}
+                  onChange={(e) => setSessionOnly(e.target.checked)}
+                  className="accent-purple-500"
+                />
+                Only keep it until this tab is closed
+              </label>
+              <KeyTestResult test={newKeyTest} />
+              <div className="flex justify-end gap-2">
+                {newKeyTest?.status === 'invalid' && (
+                  <button
+                    type="button"
+                    onClick={saveNewKey}
+                    disabled={!newKey.trim()}
+                    className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-700 text-white font-semibold transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+                    Save anyway
+                  </button>
+                )}
+                <button
+                  type="submit"
+                  disabled={!newKey.trim() || newKeyTest?.status === 'testing'}
+                  className="px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+                  Test and save
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
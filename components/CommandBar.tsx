@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {MagnifyingGlassIcon} from './icons';
+
+/** An action offered by the command bar. */
+export interface Command {
+  id: string;
+  group: 'Library' | 'Create' | 'Settings';
+  label: string;
+  /** Short verb shown next to the label, e.g. "Play". */
+  hint: string;
+  run: () => void;
+}
+
+interface CommandBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  /** The commands for the current query, the default one first. */
+  commands: Command[];
+}
+
+/**
+ * The header search field. Typing filters the library; a menu below it
+ * offers commands for the query, with searching as the default so pressing
+ * Enter never starts a paid generation by accident. Ctrl/Cmd+K focuses it.
+ */
+export const CommandBar: React.FC<CommandBarProps> = ({
+  query,
+  onQueryChange,
+  commands,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key === 'k') {
+        event.preventDefault();
+        inputRef.current?.focus();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => setActiveIndex(0), [query]);
+
+  const runCommand = (command: Command) => {
+    setIsOpen(false);
+    inputRef.current?.blur();
+    command.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setIsOpen(true);
+      setActiveIndex((index) => Math.min(index + 1, commands.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (event.key === 'Enter' && commands[activeIndex]) {
+      event.preventDefault();
+      runCommand(commands[activeIndex]);
+    } else if (event.key === 'Escape') {
+      setIsOpen(false);
+      inputRef.current?.blur();
+    }
+  };
+
+  return (
+    <div className="relative w-full sm:w-auto md:max-w-xs lg:max-w-sm">
+      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+        <MagnifyingGlassIcon className="h-5 w-5 text-gray-400" />
+      </div>
+      <input
+        ref={inputRef}
+        type="search"
+        name="search"
+        id="search"
+        className="block w-full bg-gray-800 border border-gray-700 rounded-lg py-3 pl-10 pr-3 text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-purple-500 sm:text-sm transition"
+        placeholder="Search or run a command..."
+        value={query}
+        onChange={(e) => {
+          onQueryChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-controls="command-list"
+        aria-activedescendant={
+          isOpen && commands[activeIndex]
+            ? `command-${commands[activeIndex].id}`
+            : undefined
+        }
+      />
+      {isOpen && commands.length > 0 && (
+        <ul
+          id="command-list"
+          role="listbox"
+          className="absolute z-40 mt-2 w-full min-w-[18rem] right-0 bg-gray-800 border border-gray-700 rounded-lg shadow-2xl py-1 max-h-96 overflow-y-auto">
+          {commands.map((command, index) => (
+            <React.Fragment key={command.id}>
+              {command.group !== commands[index - 1]?.group && (
+                <li
+                  role="presentation"
+                  className="px-3 pt-2 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500">
+                  {command.group}
+                </li>
+              )}
+              <li
+                id={`command-${command.id}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so the menu doesn't close first.
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => runCommand(command)}
+                className={`flex items-center gap-3 px-3 py-2 text-sm cursor-pointer ${
+                  index === activeIndex
+                    ? 'bg-purple-600/30 text-white'
+                    : 'text-gray-300'
+                }`}>
+                <span className="w-16 flex-shrink-0 text-xs text-gray-400">
+                  {command.hint}
+                </span>
+                <span className="truncate">{command.label}</span>
+              </li>
+            </React.Fragment>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
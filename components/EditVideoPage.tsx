@@ -2,145 +2,59 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, {useRef, useEffect, useState} from 'react';
-import {Video} from '../types';
-import {TrashIcon} from './icons';
+import React, {useRef, useState} from 'react';
+import {useVideoUrl} from '../hooks/useVideoUrl';
+import {getModelCapabilities} from '../services/generation';
+import {describeMaskRegion} from '../services/maskShapes';
+import {assemblePrompt, parsePrompt} from '../services/promptBuilder';
+import {
+  GenerationOptions,
+  PersonGeneration,
+  PromptParts,
+  RegionEdit,
+  RegionEditMode,
+  Resolution,
+  Video,
+} from '../types';
+import {
+  GenerationSettings,
+  segmentClassName,
+  UNSUPPORTED_HINT,
+} from './GenerationSettings';
+import {PromptBuilder} from './PromptBuilder';
+import {VideoMaskEditor, VideoMaskEditorHandle} from './VideoMaskEditor';
 
-interface VideoMaskEditorProps {
-  videoUrl: string;
-  onMaskChange: (isMasking: boolean) => void;
+/** The change asked for in the editor, if the user drew and described one. */
+export interface RemixEdit {
+  instruction?: string;
+  regionEdit?: RegionEdit;
 }
 
-const VideoMaskEditor: React.FC<VideoMaskEditorProps> = ({
-  videoUrl,
-  onMaskChange,
-}) => {
-  const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [hasMask, setHasMask] = useState(false);
-
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    const video = videoRef.current;
-    if (!canvas || !video) return;
-
-    const context = canvas.getContext('2d');
-    if (!context) return;
-
-    const setCanvasDimensions = () => {
-      canvas.width = video.clientWidth;
-      canvas.height = video.clientHeight;
-      // Re-apply drawing styles after resize/reset
-      context.strokeStyle = 'rgba(168, 85, 247, 0.7)';
-      context.lineWidth = 20;
-      context.lineCap = 'round';
-      context.lineJoin = 'round';
-    };
-
-    video.addEventListener('loadedmetadata', setCanvasDimensions);
-    window.addEventListener('resize', setCanvasDimensions);
-
-    // Initial setup
-    if (video.readyState >= 1) {
-      setCanvasDimensions();
-    }
-
-    return () => {
-      video.removeEventListener('loadedmetadata', setCanvasDimensions);
-      window.removeEventListener('resize', setCanvasDimensions);
-    };
-  }, [hasMask]); // Rerun when mask is cleared to reset context styles
-
-  const startDrawing = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current;
-    const context = canvas?.getContext('2d');
-    if (!context) return;
-
-    const {offsetX, offsetY} = event.nativeEvent;
-    context.beginPath();
-    context.moveTo(offsetX, offsetY);
-    setIsDrawing(true);
-    if (!hasMask) {
-      setHasMask(true);
-      onMaskChange(true);
-    }
-  };
-
-  const draw = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing) return;
-    const canvas = canvasRef.current;
-    const context = canvas?.getContext('2d');
-    if (!context) return;
-
-    const {offsetX, offsetY} = event.nativeEvent;
-    context.lineTo(offsetX, offsetY);
-    context.stroke();
-  };
-
-  const stopDrawing = () => {
-    if (!isDrawing) return;
-    const canvas = canvasRef.current;
-    const context = canvas?.getContext('2d');
-    if (!context) return;
-
-    context.closePath();
-    setIsDrawing(false);
-  };
-
-  const clearMask = () => {
-    const canvas = canvasRef.current;
-    const context = canvas?.getContext('2d');
-    if (!context || !canvas) return;
-    context.clearRect(0, 0, canvas.width, canvas.height);
-    setHasMask(false);
-    onMaskChange(false);
-  };
-
-  return (
-    <div className="relative aspect-w-16 aspect-h-9 bg-black rounded-lg overflow-hidden group shadow-inner">
-      <video
-        ref={videoRef}
-        src={videoUrl}
-        muted
-        className="w-full h-full object-contain pointer-events-none"
-        preload="metadata"
-        aria-hidden="true"
-      />
-      <canvas
-        ref={canvasRef}
-        className="absolute top-0 left-0 w-full h-full cursor-crosshair"
-        onMouseDown={startDrawing}
-        onMouseMove={draw}
-        onMouseUp={stopDrawing}
-        onMouseLeave={stopDrawing}
-      />
-      {hasMask && (
-        <button
-          onClick={clearMask}
-          className="absolute top-3 right-3 p-2 rounded-full bg-black/50 text-white hover:bg-black/70 transition-all opacity-0 group-hover:opacity-100 focus:opacity-100"
-          aria-label="Clear mask">
-          <TrashIcon className="w-5 h-5" />
-        </button>
-      )}
-    </div>
-  );
-};
-
 interface EditVideoPageProps {
   video: Video;
   onSave: (
     updatedVideo: Video,
-    options: {
-      numberOfVideos: number;
-      quality: 'fast' | 'quality';
-      duration: 'short' | 'medium' | 'long';
-      aspectRatio: '16:9' | '9:16' | '1:1';
-    },
+    options: GenerationOptions,
+    edit: RemixEdit,
   ) => void;
   onCancel: () => void;
 }
 
+const PERSON_GENERATION_OPTIONS: {
+  value: PersonGeneration | undefined;
+  label: string;
+}[] = [
+  {value: undefined, label: 'Default'},
+  {value: 'allow_all', label: 'Anyone'},
+  {value: 'allow_adult', label: 'Adults'},
+  {value: 'dont_allow', label: 'Nobody'},
+];
+
+const RESOLUTION_OPTIONS: Resolution[] = ['720p', '1080p'];
+
+/** Seeds are unsigned 32-bit integers. */
+const MAX_SEED = 2 ** 32 - 1;
+
 /**
  * A page that allows the user to edit the description of a video.
  * It provides input field for the description and buttons to save or cancel the changes.
@@ -150,30 +64,103 @@ export const EditVideoPage: React.FC<EditVideoPageProps> = ({
   onSave,
   onCancel,
 }) => {
+  const maskEditorRef = useRef<VideoMaskEditorHandle>(null);
+  const videoUrl = useVideoUrl(video);
   const [editPrompt, setEditPrompt] = useState('');
+  const [promptParts, setPromptParts] = useState(() =>
+    parsePrompt(video.description),
+  );
+  const [isPromptEdited, setIsPromptEdited] = useState(false);
+  // Untouched prompts are sent verbatim rather than in the builder's order.
+  const basePrompt = isPromptEdited
+    ? assemblePrompt(promptParts)
+    : video.description;
   const [isMaskActive, setIsMaskActive] = useState(false);
-  const [numberOfVideos, setNumberOfVideos] = useState(1);
-  const [quality, setQuality] = useState<'fast' | 'quality'>('fast');
-  const [duration, setDuration] = useState<'short' | 'medium' | 'long'>(
-    'medium',
+  const [regionMode, setRegionMode] = useState<RegionEditMode>('insert');
+  // Start from the settings the video was made with, so a take can be
+  // reproduced with a single change.
+  const previous = video.generation?.options;
+  const [options, setOptions] = useState<GenerationOptions>({
+    numberOfVideos: 1,
+    quality: previous?.quality ?? 'fast',
+    duration: previous?.duration ?? 'medium',
+    aspectRatio: previous?.aspectRatio ?? '16:9',
+    resolution: previous?.resolution ?? '720p',
+  });
+  const [negativePrompt, setNegativePrompt] = useState(
+    previous?.negativePrompt ?? '',
   );
-  const [aspectRatio, setAspectRatio] = useState<'16:9' | '9:16' | '1:1'>(
-    '16:9',
+  const [seed, setSeed] = useState(previous?.seed?.toString() ?? '');
+  const [personGeneration, setPersonGeneration] = useState(
+    previous?.personGeneration,
   );
+  const capabilities = getModelCapabilities(options.quality);
+  // Settings the model can't take, e.g. those of a take made with another
+  // backend, are left out rather than failing the generation.
+  const parsedSeed =
+    !capabilities.seed || seed.trim() === '' ? undefined : Number(seed);
+  const isSeedValid =
+    parsedSeed === undefined ||
+    (Number.isInteger(parsedSeed) && parsedSeed >= 0 && parsedSeed <= MAX_SEED);
+  const supportedPersonGeneration =
+    personGeneration &&
+    capabilities.textPersonGenerations.includes(personGeneration)
+      ? personGeneration
+      : undefined;
 
-  const handleSave = () => {
-    let finalDescription = video.description;
-    if (isMaskActive && editPrompt.trim() !== '') {
-      finalDescription = `${video.description}\n\nIn the highlighted area, please ${editPrompt}.`;
+  const handleSave = async () => {
+    let finalDescription = basePrompt;
+    const edit: RemixEdit = {};
+    if (isMaskActive && (regionMode === 'remove' || editPrompt.trim() !== '')) {
+      const {timeRange, keyframes} = maskEditorRef.current.getTiming();
+      const instruction =
+        regionMode === 'remove'
+          ? 'Remove the object in the highlighted area.'
+          : `In the highlighted area, please ${editPrompt}.`;
+      const area = describeMaskRegion(timeRange, keyframes);
+      edit.instruction = area ? `${area} ${instruction}` : instruction;
+      finalDescription = `${basePrompt}\n\n${edit.instruction}`;
+      try {
+        const region = await maskEditorRef.current.exportRegion();
+        edit.regionEdit = {
+          ...region,
+          mode: regionMode,
+          timeRange: timeRange ?? undefined,
+        };
+      } catch (error) {
+        // The frame can't be read back if the video's server sends no CORS
+        // headers, so the change is only described in the prompt.
+        console.warn(
+          "Could not read the video's frames to export the mask (its " +
+            'server may send no CORS headers), using prompt only:',
+          error,
+        );
+      }
     }
     onSave(
       {...video, description: finalDescription},
-      {numberOfVideos, quality, duration, aspectRatio},
+      {
+        ...options,
+        negativePrompt: negativePrompt.trim() || undefined,
+        seed: parsedSeed,
+        personGeneration: supportedPersonGeneration,
+      },
+      edit,
     );
   };
 
-  const incrementVideos = () => setNumberOfVideos((v) => Math.min(v + 1, 4));
-  const decrementVideos = () => setNumberOfVideos((v) => Math.max(v - 1, 1));
+  const handlePromptChange = (parts: PromptParts) => {
+    setPromptParts(parts);
+    setIsPromptEdited(true);
+  };
+
+  const resetPrompt = () => {
+    setPromptParts(parsePrompt(video.description));
+    setIsPromptEdited(false);
+  };
+
+  const randomizeSeed = () =>
+    setSeed(Math.floor(Math.random() * (MAX_SEED + 1)).toString());
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100 font-sans flex flex-col items-center justify-center p-4 animate-fade-in">
@@ -184,18 +171,45 @@ export const EditVideoPage: React.FC<EditVideoPageProps> = ({
           </h1>
           <p className="text-gray-400">
             Draw on the video to specify an area to change, then describe your
-            edit.
+            edit. Scrub the timeline to add keyframes as the subject moves.
           </p>
         </header>
 
         <main>
           <div className="mb-6">
             <VideoMaskEditor
-              videoUrl={video.videoUrl}
+              ref={maskEditorRef}
+              videoUrl={videoUrl}
               onMaskChange={setIsMaskActive}
             />
           </div>
 
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Highlighted area
+            </label>
+            <div className="flex rounded-lg bg-gray-700 p-1 max-w-xs">
+              <button
+                onClick={() => setRegionMode('insert')}
+                className={`w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  regionMode === 'insert'
+                    ? 'bg-purple-600 text-white'
+                    : 'text-gray-300 hover:bg-gray-600'
+                }`}>
+                Change
+              </button>
+              <button
+                onClick={() => setRegionMode('remove')}
+                className={`w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  regionMode === 'remove'
+                    ? 'bg-purple-600 text-white'
+                    : 'text-gray-300 hover:bg-gray-600'
+                }`}>
+                Remove
+              </button>
+            </div>
+          </div>
+
           <div className="mb-6">
             <label
               htmlFor="edit-prompt"
@@ -209,150 +223,144 @@ export const EditVideoPage: React.FC<EditVideoPageProps> = ({
               value={editPrompt}
               onChange={(e) => setEditPrompt(e.target.value)}
               placeholder={
-                isMaskActive
-                  ? 'e.g., add a cat wearing a party hat'
-                  : 'Draw on the video above to enable...'
+                !isMaskActive
+                  ? 'Draw on the video above to enable...'
+                  : regionMode === 'remove'
+                    ? 'The highlighted object will be removed'
+                    : 'e.g., add a cat wearing a party hat'
               }
-              disabled={!isMaskActive}
+              disabled={!isMaskActive || regionMode === 'remove'}
               aria-label="Describe the change for the selected area"
             />
           </div>
 
           <div className="mb-6">
-            <label className="block text-sm font-medium text-gray-300 mb-2">
-              Original Prompt (for context)
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-sm font-medium text-gray-300">Prompt</h2>
+              <button
+                onClick={resetPrompt}
+                disabled={!isPromptEdited}
+                className="text-sm text-purple-400 hover:text-purple-300 disabled:text-gray-500 disabled:cursor-not-allowed">
+                Reset to original
+              </button>
+            </div>
+            <PromptBuilder value={promptParts} onChange={handlePromptChange} />
+            <label className="block text-xs font-medium text-gray-400 mt-3 mb-1">
+              Full prompt
             </label>
-            <div className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-gray-400 text-sm h-24 overflow-y-auto">
-              {video.description}
+            <div className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-gray-400 text-sm max-h-32 overflow-y-auto">
+              {basePrompt}
             </div>
           </div>
           <div className="mb-8 space-y-6">
             <h2 className="text-xl font-semibold text-white">
               Generation Settings
             </h2>
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
-              <div>
-                <label
-                  htmlFor="variations"
-                  className="block text-sm font-medium text-gray-300 mb-2">
-                  Variations
-                </label>
-                <div className="flex items-center gap-2">
-                  <button
-                    onClick={decrementVideos}
-                    disabled={numberOfVideos <= 1}
-                    className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors text-lg disabled:opacity-50 disabled:cursor-not-allowed">
-                    -
-                  </button>
+            <GenerationSettings value={options} onChange={setOptions} />
+            <details className="group">
+              <summary className="cursor-pointer select-none text-sm font-medium text-gray-300 hover:text-white">
+                Advanced
+              </summary>
+              <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-6">
+                <div className="sm:col-span-2">
+                  <label
+                    htmlFor="negative-prompt"
+                    className="block text-sm font-medium text-gray-300 mb-2">
+                    Negative prompt
+                  </label>
                   <input
                     type="text"
-                    id="variations"
-                    readOnly
-                    className="w-12 text-center bg-gray-900 border border-gray-700 rounded-lg p-2 text-gray-200"
-                    value={numberOfVideos}
+                    id="negative-prompt"
+                    className="w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+                    value={negativePrompt}
+                    onChange={(e) => setNegativePrompt(e.target.value)}
+                    placeholder="e.g., text overlays, blurry footage"
                   />
-                  <button
-                    onClick={incrementVideos}
-                    disabled={numberOfVideos >= 4}
-                    className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors text-lg disabled:opacity-50 disabled:cursor-not-allowed">
-                    +
-                  </button>
                 </div>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-2">
-                  Quality
-                </label>
-                <div className="flex rounded-lg bg-gray-700 p-1">
-                  <button
-                    onClick={() => setQuality('fast')}
-                    className={`w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                      quality === 'fast'
-                        ? 'bg-purple-600 text-white'
-                        : 'text-gray-300 hover:bg-gray-600'
-                    }`}>
-                    Fast
-                  </button>
-                  <button
-                    onClick={() => setQuality('quality')}
-                    className={`w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                      quality === 'quality'
-                        ? 'bg-purple-600 text-white'
-                        : 'text-gray-300 hover:bg-gray-600'
-                    }`}>
-                    High
-                  </button>
+                {capabilities.seed && (
+                  <div>
+                    <label
+                      htmlFor="seed"
+                      className="block text-sm font-medium text-gray-300 mb-2">
+                      Seed
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        id="seed"
+                        className={`w-full bg-gray-900 border rounded-lg p-2 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 ${
+                          isSeedValid ? 'border-gray-700' : 'border-red-500'
+                        }`}
+                        value={seed}
+                        onChange={(e) => setSeed(e.target.value)}
+                        placeholder="Random"
+                        aria-invalid={!isSeedValid}
+                      />
+                      <button
+                        onClick={randomizeSeed}
+                        className="px-3 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold transition-colors">
+                        Pick
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {isSeedValid
+                        ? 'The same seed and settings reproduce the same take.'
+                        : `Use a whole number from 0 to ${MAX_SEED}.`}
+                    </p>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Resolution
+                  </label>
+                  <div className="flex rounded-lg bg-gray-700 p-1">
+                    {RESOLUTION_OPTIONS.map((option) => {
+                      const isSupported =
+                        capabilities.resolutions.includes(option);
+                      return (
+                        <button
+                          key={option}
+                          onClick={() =>
+                            setOptions({...options, resolution: option})
+                          }
+                          disabled={!isSupported}
+                          title={isSupported ? undefined : UNSUPPORTED_HINT}
+                          className={segmentClassName(
+                            options.resolution === option,
+                          )}>
+                          {option}
+                        </button>
+                      );
+                    })}
+                  </div>
                 </div>
-              </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-2">
-                  Duration
-                </label>
-                <div className="flex rounded-lg bg-gray-700 p-1">
-                  <button
-                    onClick={() => setDuration('short')}
-                    className={`w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                      duration === 'short'
-                        ? 'bg-purple-600 text-white'
-                        : 'text-gray-300 hover:bg-gray-600'
-                    }`}>
-                    Short
-                  </button>
-                  <button
-                    onClick={() => setDuration('medium')}
-                    className={`w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                      duration === 'medium'
-                        ? 'bg-purple-600 text-white'
-                        : 'text-gray-300 hover:bg-gray-600'
-                    }`}>
-                    Medium
-                  </button>
-                  <button
-                    onClick={() => setDuration('long')}
-                    className={`w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                      duration === 'long'
-                        ? 'bg-purple-600 text-white'
-                        : 'text-gray-300 hover:bg-gray-600'
-                    }`}>
-                    Long
-                  </button>
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    People in the video
+                  </label>
+                  <div className="flex rounded-lg bg-gray-700 p-1">
+                    {PERSON_GENERATION_OPTIONS.map(({value, label}) => {
+                      const isSupported =
+                        value === undefined ||
+                        capabilities.textPersonGenerations.includes(value);
+                      return (
+                        <button
+                          key={label}
+                          onClick={() => setPersonGeneration(value)}
+                          disabled={!isSupported}
+                          title={isSupported ? undefined : UNSUPPORTED_HINT}
+                          className={segmentClassName(
+                            supportedPersonGeneration === value,
+                          )}>
+                          {label}
+                        </button>
+                      );
+                    })}
+                  </div>
                 </div>
               </div>
-              <div>
-                <label className="block text-sm font-medium text-gray-300 mb-2">
-                  Aspect Ratio
-                </label>
-                <div className="flex rounded-lg bg-gray-700 p-1">
-                  <button
-                    onClick={() => setAspectRatio('16:9')}
-                    className={`w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                      aspectRatio === '16:9'
-                        ? 'bg-purple-600 text-white'
-                        : 'text-gray-300 hover:bg-gray-600'
-                    }`}>
-                    16:9
-                  </button>
-                  <button
-                    onClick={() => setAspectRatio('9:16')}
-                    className={`w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                      aspectRatio === '9:16'
-                        ? 'bg-purple-600 text-white'
-                        : 'text-gray-300 hover:bg-gray-600'
-                    }`}>
-                    9:16
-                  </button>
-                  <button
-                    onClick={() => setAspectRatio('1:1')}
-                    className={`w-full px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                      aspectRatio === '1:1'
-                        ? 'bg-purple-600 text-white'
-                        : 'text-gray-300 hover:bg-gray-600'
-                    }`}>
-                    1:1
-                  </button>
-                </div>
-              </div>
-            </div>
+            </details>
           </div>
         </main>
 
@@ -364,7 +372,8 @@ export const EditVideoPage: React.FC<EditVideoPageProps> = ({
           </button>
           <button
             onClick={handleSave}
-            className="px-6 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors">
+            disabled={!isSeedValid}
+            className="px-6 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
             Generate new video
           </button>
         </footer>
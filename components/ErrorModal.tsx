@@ -3,24 +3,67 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import {ErrorDetails} from '../types';
+import {ErrorDetails, ErrorType} from '../types';
 import {XMarkIcon} from './icons';
 
 interface ErrorModalProps {
   error: ErrorDetails;
   onClose: () => void;
   onSelectKey: () => void;
+  onRetry: () => void;
+  onRetryLater: () => void;
+  /** Omitted when the failed prompt can't be edited. */
+  onEditPrompt?: () => void;
+  onShowHistory: () => void;
 }
 
+type ErrorAction = 'select_key' | 'retry' | 'retry_later' | 'edit_prompt';
+
+/** The way out offered for each kind of failure, besides closing. */
+const ERROR_ACTIONS: Record<ErrorType, ErrorAction | null> = {
+  api_key: 'select_key',
+  quota: 'retry_later',
+  invalid_request: 'edit_prompt',
+  safety_filtered: 'edit_prompt',
+  generation_failed: 'edit_prompt',
+  server: 'retry',
+  network: 'retry',
+  offline: 'retry',
+  timeout: 'retry',
+  cancelled: null,
+  unknown: 'retry',
+};
+
+const ACTION_LABELS: Record<ErrorAction, string> = {
+  select_key: 'Add API Key',
+  retry: 'Retry Now',
+  retry_later: 'Retry in a Minute',
+  edit_prompt: 'Edit Prompt',
+};
+
 /**
  * A modal component that displays a categorized error message to the user.
  * It includes a title, the error message, a close button, and a visual error icon.
+ * Where it helps, it also offers the action that fits the kind of error.
  */
 export const ErrorModal: React.FC<ErrorModalProps> = ({
   error,
   onClose,
   onSelectKey,
+  onRetry,
+  onRetryLater,
+  onEditPrompt,
+  onShowHistory,
 }) => {
+  const handlers: Record<ErrorAction, (() => void) | undefined> = {
+    select_key: onSelectKey,
+    retry: onRetry,
+    retry_later: onRetryLater,
+    edit_prompt: onEditPrompt,
+  };
+  const action = ERROR_ACTIONS[error.type];
+  const onAction = action ? handlers[action] : undefined;
+
   return (
     <div
       className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
@@ -63,13 +106,33 @@ export const ErrorModal: React.FC<ErrorModalProps> = ({
             {m}
           </p>
         ))}
+        {error.safety && (
+          <div className="mt-4 text-left bg-gray-900/60 rounded-lg p-4">
+            <p className="text-sm font-semibold text-yellow-400">
+              {error.safety.filteredCount} of {error.safety.requestedCount}{' '}
+              requested videos blocked
+            </p>
+            {error.safety.reasons.length > 0 && (
+              <ul className="mt-2 list-disc list-inside space-y-1 text-sm text-gray-300">
+                {error.safety.reasons.map((reason, index) => (
+                  <li key={index}>{reason}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        <button
+          onClick={onShowHistory}
+          className="mt-4 text-sm text-gray-400 underline hover:text-white">
+          See earlier failed attempts
+        </button>
         <div className="mt-8 flex justify-center gap-4">
-          {error.type === 'api_key' ? (
+          {onAction ? (
             <>
               <button
-                onClick={onSelectKey}
+                onClick={onAction}
                 className="px-8 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-800">
-                Add API Key
+                {ACTION_LABELS[action]}
               </button>
               <button
                 onClick={onClose}
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {FailedAttempt} from '../types';
+import {XMarkIcon} from './icons';
+
+interface FailureHistoryProps {
+  attempts: FailedAttempt[];
+  onEditPrompt: (attempt: FailedAttempt) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Lists the generations that failed or were partly filtered, newest first,
+ * with the reasons given, so it's easier to see which wording trips the
+ * safety filters.
+ */
+export const FailureHistory: React.FC<FailureHistoryProps> = ({
+  attempts,
+  onEditPrompt,
+  onClear,
+  onClose,
+}) => (
+  <div
+    className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+    onClick={onClose}
+    aria-modal="true"
+    role="dialog"
+    aria-labelledby="failure-history-title">
+    <div
+      className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl relative p-6 m-4 max-h-[90vh] flex flex-col"
+      onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={onClose}
+        className="absolute top-3 right-3 text-gray-400 hover:text-white z-10 p-2 rounded-full bg-transparent hover:bg-gray-700 transition-colors"
+        aria-label="Close failed attempts">
+        <XMarkIcon className="w-6 h-6" />
+      </button>
+      <h2
+        id="failure-history-title"
+        className="text-2xl font-bold text-white mb-1">
+        Failed attempts
+      </h2>
+      <p className="text-gray-400 mb-4">
+        Generations that failed or lost variations to the safety filters.
+      </p>
+      {attempts.length === 0 ? (
+        <p className="text-gray-500 py-8 text-center">
+          No failed attempts yet.
+        </p>
+      ) : (
+        <ul className="overflow-y-auto space-y-3">
+          {attempts.map((attempt) => (
+            <li key={attempt.id} className="bg-gray-900/60 rounded-lg p-4">
+              <div className="flex items-baseline justify-between gap-4">
+                <p
+                  className={`text-sm font-semibold ${
+                    attempt.error.type === 'safety_filtered'
+                      ? 'text-yellow-400'
+                      : 'text-red-400'
+                  }`}>
+                  {attempt.error.title}
+                  {attempt.error.safety &&
+                    ` (${attempt.error.safety.filteredCount} of ${attempt.error.safety.requestedCount})`}
+                </p>
+                <time
+                  className="flex-shrink-0 text-xs text-gray-500"
+                  dateTime={new Date(attempt.failedAt).toISOString()}>
+                  {new Date(attempt.failedAt).toLocaleString()}
+                </time>
+              </div>
+              <p className="mt-2 text-sm text-gray-300 whitespace-pre-wrap">
+                {attempt.prompt}
+              </p>
+              {attempt.error.safety?.reasons.map((reason, index) => (
+                <p key={index} className="mt-1 text-xs text-gray-400">
+                  {reason}
+                </p>
+              ))}
+              <button
+                onClick={() => onEditPrompt(attempt)}
+                className="mt-2 text-sm text-purple-400 hover:text-purple-300">
+                Try this prompt again
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {attempts.length > 0 && (
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={onClear}
+            className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-700 text-white font-semibold transition-colors text-sm">
+            Clear history
+          </button>
+        </div>
+      )}
+    </div>
+  </div>
+);
@@ -0,0 +1,171 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect} from 'react';
+import {DURATION_SECONDS} from '../constants';
+import {getModelCapabilities} from '../services/generation';
+import {
+  AspectRatio,
+  GenerationDuration,
+  GenerationOptions,
+  GenerationQuality,
+} from '../types';
+
+const MAX_VIDEOS = 4;
+
+const QUALITY_OPTIONS: {value: GenerationQuality; label: string}[] = [
+  {value: 'fast', label: 'Fast'},
+  {value: 'quality', label: 'High'},
+];
+
+const DURATION_OPTIONS: {value: GenerationDuration; label: string}[] = [
+  {value: 'short', label: 'Short'},
+  {value: 'medium', label: 'Medium'},
+  {value: 'long', label: 'Long'},
+];
+
+const ASPECT_RATIO_OPTIONS: AspectRatio[] = ['16:9', '9:16', '1:1'];
+
+export const UNSUPPORTED_HINT = 'Not supported by the selected model';
+
+/** Class names for one option of a segmented control. */
+export function segmentClassName(isSelected: boolean) {
+  return `w-full px-4 py-2 text-sm font-medium rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent ${
+    isSelected ? 'bg-purple-600 text-white' : 'text-gray-300 hover:bg-gray-600'
+  }`;
+}
+
+interface GenerationSettingsProps {
+  value: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+}
+
+/**
+ * The basic settings of a generation: variations, quality, duration and
+ * aspect ratio. Options the selected model doesn't support are disabled, and
+ * a selection it can't honour falls back to one it can.
+ */
+export const GenerationSettings: React.FC<GenerationSettingsProps> = ({
+  value,
+  onChange,
+}) => {
+  const quality = value.quality ?? 'fast';
+  const capabilities = getModelCapabilities(quality);
+  const update = (changes: Partial<GenerationOptions>) =>
+    onChange({...value, ...changes});
+
+  useEffect(() => {
+    const changes: Partial<GenerationOptions> = {};
+    if (value.duration && !capabilities.durations.includes(value.duration)) {
+      changes.duration =
+        capabilities.durations[capabilities.durations.length - 1];
+    }
+    if (!capabilities.aspectRatios.includes(value.aspectRatio)) {
+      changes.aspectRatio = capabilities.aspectRatios[0];
+    }
+    if (
+      value.resolution &&
+      !capabilities.resolutions.includes(value.resolution)
+    ) {
+      changes.resolution = capabilities.resolutions[0];
+    }
+    if (Object.keys(changes).length > 0) {
+      onChange({...value, ...changes});
+    }
+  }, [capabilities, value]);
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+      <div>
+        <label
+          htmlFor="variations"
+          className="block text-sm font-medium text-gray-300 mb-2">
+          Variations
+        </label>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() =>
+              update({numberOfVideos: Math.max(value.numberOfVideos - 1, 1)})
+            }
+            disabled={value.numberOfVideos <= 1}
+            className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors text-lg disabled:opacity-50 disabled:cursor-not-allowed">
+            -
+          </button>
+          <input
+            type="text"
+            id="variations"
+            readOnly
+            className="w-12 text-center bg-gray-900 border border-gray-700 rounded-lg p-2 text-gray-200"
+            value={value.numberOfVideos}
+          />
+          <button
+            onClick={() =>
+              update({
+                numberOfVideos: Math.min(value.numberOfVideos + 1, MAX_VIDEOS),
+              })
+            }
+            disabled={value.numberOfVideos >= MAX_VIDEOS}
+            className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors text-lg disabled:opacity-50 disabled:cursor-not-allowed">
+            +
+          </button>
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Quality
+        </label>
+        <div className="flex rounded-lg bg-gray-700 p-1">
+          {QUALITY_OPTIONS.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => update({quality: option.value})}
+              className={segmentClassName(quality === option.value)}>
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Duration
+        </label>
+        <div className="flex rounded-lg bg-gray-700 p-1">
+          {DURATION_OPTIONS.map((option) => {
+            const isSupported = capabilities.durations.includes(option.value);
+            return (
+              <button
+                key={option.value}
+                onClick={() => update({duration: option.value})}
+                disabled={!isSupported}
+                title={isSupported ? undefined : UNSUPPORTED_HINT}
+                className={segmentClassName(value.duration === option.value)}>
+                {option.label} ({DURATION_SECONDS[option.value]}s)
+              </button>
+            );
+          })}
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-300 mb-2">
+          Aspect Ratio
+        </label>
+        <div className="flex rounded-lg bg-gray-700 p-1">
+          {ASPECT_RATIO_OPTIONS.map((option) => {
+            const isSupported = capabilities.aspectRatios.includes(option);
+            return (
+              <button
+                key={option}
+                onClick={() => update({aspectRatio: option})}
+                disabled={!isSupported}
+                title={isSupported ? undefined : UNSUPPORTED_HINT}
+                className={segmentClassName(value.aspectRatio === option)}>
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
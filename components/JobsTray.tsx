@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useState} from 'react';
+import {isJobFinished} from '../hooks/useGenerationQueue';
+import {ESTIMATED_GENERATION_MS} from '../services/generation';
+import {GenerationJob} from '../types';
+import {XMarkIcon} from './icons';
+import {JOB_STATUS_LABELS} from './PendingVideoCard';
+
+interface JobsTrayProps {
+  jobs: GenerationJob[];
+  onViewJob: (job: GenerationJob) => void;
+  onShowError: (job: GenerationJob) => void;
+  onCancelJob: (id: string) => void;
+  onDismissJob: (id: string) => void;
+}
+
+const STATUS_COLORS: Record<GenerationJob['status'], string> = {
+  waiting: 'text-yellow-400',
+  queued: 'text-gray-400',
+  polling: 'text-purple-400',
+  downloading: 'text-purple-400',
+  done: 'text-green-400',
+  failed: 'text-red-400',
+  cancelled: 'text-gray-400',
+};
+
+function formatDuration(ms: number) {
+  const totalSeconds = Math.max(Math.round(ms / 1000), 0);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * A floating panel listing the background generation jobs and their status.
+ * Running jobs show their elapsed time against the typical generation time,
+ * waiting ones the time left until they are retried; both can be cancelled.
+ * Finished jobs can be opened or dismissed.
+ */
+export const JobsTray: React.FC<JobsTrayProps> = ({
+  jobs,
+  onViewJob,
+  onShowError,
+  onCancelJob,
+  onDismissJob,
+}) => {
+  const [now, setNow] = useState(Date.now());
+  const hasRunningJobs = jobs.some(
+    (job) =>
+      job.status === 'waiting' ||
+      (job.startedAt !== undefined && !isJobFinished(job)),
+  );
+
+  useEffect(() => {
+    if (!hasRunningJobs) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hasRunningJobs]);
+
+  if (jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <aside
+      className="fixed bottom-4 right-4 z-40 w-80 max-h-[50vh] overflow-y-auto bg-gray-800 border border-gray-700 rounded-lg shadow-2xl animate-fade-in"
+      aria-label="Generation jobs"
+      aria-live="polite">
+      <h2 className="px-4 pt-3 pb-2 text-sm font-semibold text-white">
+        Generations
+      </h2>
+      <ul className="divide-y divide-gray-700">
+        {jobs.map((job) => {
+          const isFinished = isJobFinished(job);
+          const showProgress = !isFinished && job.startedAt !== undefined;
+          const elapsed = showProgress ? now - job.startedAt : 0;
+          // Never show a running job as complete, however long it takes.
+          const progress = Math.min(elapsed / ESTIMATED_GENERATION_MS, 0.95);
+          return (
+            <li key={job.id} className="px-4 py-3 flex items-center gap-3">
+              {!isFinished && (
+                <div className="w-5 h-5 flex-shrink-0 border-2 border-dashed rounded-full animate-spin border-purple-500"></div>
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-200 truncate" title={job.title}>
+                  {job.title}
+                </p>
+                <p className={`text-xs ${STATUS_COLORS[job.status]}`}>
+                  {JOB_STATUS_LABELS[job.status]}
+                  {job.status === 'done' && job.error?.safety && (
+                    <span className="text-yellow-400">
+                      {' '}
+                      · {job.error.safety.filteredCount} of{' '}
+                      {job.error.safety.requestedCount} blocked
+                    </span>
+                  )}
+                  {job.status === 'waiting' && (
+                    <span className="text-gray-400">
+                      {' '}
+                      in {formatDuration(job.retryAt - now)}
+                    </span>
+                  )}
+                  {showProgress && (
+                    <span className="text-gray-400">
+                      {' '}
+                      {formatDuration(elapsed)} / ~
+                      {formatDuration(ESTIMATED_GENERATION_MS)}
+                    </span>
+                  )}
+                </p>
+                {showProgress && (
+                  <div
+                    className="mt-1 h-1 w-full rounded-full bg-gray-700 overflow-hidden"
+                    role="progressbar"
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={Math.round(progress * 100)}>
+                    <div
+                      className="h-full bg-purple-500 transition-all duration-1000"
+                      style={{width: `${progress * 100}%`}}
+                    />
+                  </div>
+                )}
+              </div>
+              {!isFinished && (
+                <button
+                  onClick={() => onCancelJob(job.id)}
+                  className="text-xs font-semibold text-gray-400 hover:text-white">
+                  Cancel
+                </button>
+              )}
+              {job.status === 'done' && (
+                <button
+                  onClick={() => onViewJob(job)}
+                  className="text-xs font-semibold text-purple-400 hover:text-purple-300">
+                  View
+                </button>
+              )}
+              {job.error && (
+                <button
+                  onClick={() => onShowError(job)}
+                  className="text-xs font-semibold text-red-400 hover:text-red-300">
+                  Details
+                </button>
+              )}
+              {isFinished && (
+                <button
+                  onClick={() => onDismissJob(job.id)}
+                  className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+                  aria-label={`Dismiss ${job.title}`}>
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </aside>
+  );
+};
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {isFilterActive, LibraryFilter} from '../services/libraryFilters';
+import {Collection, VideoSource} from '../types';
+import {StarIcon} from './icons';
+
+const SOURCE_OPTIONS: {value: VideoSource; label: string}[] = [
+  {value: 'seed', label: 'Gallery'},
+  {value: 'uploaded', label: 'Uploaded'},
+  {value: 'generated', label: 'Generated'},
+];
+
+interface LibraryFiltersProps {
+  filter: LibraryFilter;
+  onChange: (filter: LibraryFilter) => void;
+  collections: Collection[];
+  tags: string[];
+  onDeleteCollection: (collection: Collection) => void;
+}
+
+const Chip: React.FC<{
+  isActive: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}> = ({isActive, onClick, children}) => (
+  <button
+    onClick={onClick}
+    aria-pressed={isActive}
+    className={`flex items-center gap-1 px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+      isActive
+        ? 'bg-purple-600 text-white'
+        : 'bg-gray-800 text-gray-300 hover:bg-gray-700'
+    }`}>
+    {children}
+  </button>
+);
+
+/**
+ * Filter chips above the grid for browsing by source, favorites, collection
+ * and tag. Picking an active chip again clears it.
+ */
+export const LibraryFilters: React.FC<LibraryFiltersProps> = ({
+  filter,
+  onChange,
+  collections,
+  tags,
+  onDeleteCollection,
+}) => {
+  const toggle = <K extends keyof LibraryFilter>(
+    key: K,
+    value: LibraryFilter[K],
+  ) => onChange({...filter, [key]: filter[key] === value ? undefined : value});
+  const activeCollection = collections.find(
+    ({id}) => id === filter.collectionId,
+  );
+
+  return (
+    <div className="mb-6 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Chip isActive={!isFilterActive(filter)} onClick={() => onChange({})}>
+          All
+        </Chip>
+        {SOURCE_OPTIONS.map(({value, label}) => (
+          <Chip
+            key={value}
+            isActive={filter.source === value}
+            onClick={() => toggle('source', value)}>
+            {label}
+          </Chip>
+        ))}
+        <Chip
+          isActive={Boolean(filter.favoritesOnly)}
+          onClick={() => toggle('favoritesOnly', true)}>
+          <StarIcon className="w-4 h-4" />
+          Favorites
+        </Chip>
+        <Chip
+          isActive={Boolean(filter.archivedOnly)}
+          onClick={() => toggle('archivedOnly', true)}>
+          Archived
+        </Chip>
+        {collections.map((collection) => (
+          <Chip
+            key={collection.id}
+            isActive={filter.collectionId === collection.id}
+            onClick={() => toggle('collectionId', collection.id)}>
+            {collection.name}
+            <span className="text-xs opacity-70">
+              {collection.videoIds.length}
+            </span>
+          </Chip>
+        ))}
+        {activeCollection && (
+          <button
+            onClick={() => onDeleteCollection(activeCollection)}
+            className="text-sm text-gray-400 hover:text-red-400 px-2">
+            Delete collection
+          </button>
+        )}
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {tags.map((tag) => (
+            <Chip
+              key={tag}
+              isActive={filter.tag === tag}
+              onClick={() => toggle('tag', tag)}>
+              #{tag}
+            </Chip>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
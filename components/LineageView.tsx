@@ -0,0 +1,208 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {useVideoUrl} from '../hooks/useVideoUrl';
+import {GenerationOptions, Video} from '../types';
+import {XMarkIcon} from './icons';
+
+interface LineageViewProps {
+  video: Video;
+  videos: Video[];
+  onSelectVideo: (video: Video) => void;
+  onClose: () => void;
+}
+
+const QUALITY_LABELS = {fast: 'Fast', quality: 'High'};
+const DURATION_LABELS = {short: 'Short', medium: 'Medium', long: 'Long'};
+const PERSON_GENERATION_LABELS = {
+  allow_all: 'people allowed',
+  allow_adult: 'adults only',
+  dont_allow: 'no people',
+};
+
+function describeOptions(options: GenerationOptions) {
+  return [
+    options.numberOfVideos > 1 ? `${options.numberOfVideos} variations` : '',
+    options.aspectRatio,
+    options.quality ? `${QUALITY_LABELS[options.quality]} quality` : '',
+    options.duration ? DURATION_LABELS[options.duration] : '',
+    options.resolution ?? '',
+    options.seed !== undefined ? `seed ${options.seed}` : '',
+    options.personGeneration
+      ? PERSON_GENERATION_LABELS[options.personGeneration]
+      : '',
+    options.negativePrompt ? `without "${options.negativePrompt}"` : '',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/** Walks up the parent links from `video`, oldest ancestor first. */
+function getAncestors(video: Video, videosById: Map<string, Video>) {
+  const ancestors: Video[] = [];
+  const seen = new Set([video.id]);
+  let parent = videosById.get(video.parentId);
+  while (parent && !seen.has(parent.id)) {
+    ancestors.unshift(parent);
+    seen.add(parent.id);
+    parent = videosById.get(parent.parentId);
+  }
+  return ancestors;
+}
+
+interface LineageNodeProps {
+  video: Video;
+  childrenByParent: Map<string, Video[]>;
+  currentId: string;
+  ancestorIds: Set<string>;
+  onSelectVideo: (video: Video) => void;
+}
+
+const LineageNode: React.FC<LineageNodeProps> = ({
+  video,
+  childrenByParent,
+  currentId,
+  ancestorIds,
+  onSelectVideo,
+}) => {
+  const children = childrenByParent.get(video.id) ?? [];
+  const videoUrl = useVideoUrl(video);
+  const isCurrent = video.id === currentId;
+  const isAncestor = ancestorIds.has(video.id);
+
+  return (
+    <li>
+      <button
+        onClick={() => onSelectVideo(video)}
+        className={`w-full flex gap-3 p-2 rounded-lg text-left transition-colors ${
+          isCurrent
+            ? 'bg-purple-600/30 ring-1 ring-purple-500'
+            : isAncestor
+              ? 'bg-gray-700/60 hover:bg-gray-700'
+              : 'hover:bg-gray-700'
+        }`}
+        aria-current={isCurrent ? 'true' : undefined}>
+        <video
+          className="w-24 h-14 flex-shrink-0 object-cover rounded bg-black pointer-events-none"
+          src={videoUrl}
+          poster={video.poster}
+          muted
+          playsInline
+          preload="metadata"
+          aria-hidden="true"
+        />
+        <div className="min-w-0 flex-1">
+          <p className="text-sm font-semibold text-gray-200 truncate">
+            {video.title}
+          </p>
+          {video.generation?.editInstruction && (
+            <p className="text-xs text-gray-300 italic truncate">
+              {video.generation.editInstruction}
+            </p>
+          )}
+          <p className="text-xs text-gray-400 truncate">
+            {[
+              video.createdAt
+                ? new Date(video.createdAt).toLocaleString()
+                : '',
+              video.generation?.model ?? '',
+              video.generation
+                ? describeOptions(video.generation.options)
+                : '',
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        </div>
+      </button>
+      {children.length > 0 && (
+        <ul className="ml-6 pl-3 mt-1 space-y-1 border-l border-gray-700">
+          {children.map((child) => (
+            <LineageNode
+              key={child.id}
+              video={child}
+              childrenByParent={childrenByParent}
+              currentId={currentId}
+              ancestorIds={ancestorIds}
+              onSelectVideo={onSelectVideo}
+            />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+};
+
+/**
+ * A modal showing the family tree a video belongs to: starting from its
+ * oldest ancestor, every remix, frame start and continuation made from it,
+ * with the current video and its ancestors highlighted.
+ */
+export const LineageView: React.FC<LineageViewProps> = ({
+  video,
+  videos,
+  onSelectVideo,
+  onClose,
+}) => {
+  const videosById = new Map<string, Video>();
+  for (const v of videos) {
+    videosById.set(v.id, v);
+  }
+  const childrenByParent = new Map<string, Video[]>();
+  for (const v of videos) {
+    if (v.parentId && videosById.has(v.parentId)) {
+      childrenByParent.set(v.parentId, [
+        ...(childrenByParent.get(v.parentId) ?? []),
+        v,
+      ]);
+    }
+  }
+  for (const children of childrenByParent.values()) {
+    children.sort((a, b) => (a.createdAt ?? 0) - (b.createdAt ?? 0));
+  }
+
+  const ancestors = getAncestors(video, videosById);
+  const root = ancestors[0] ?? video;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="lineage-title">
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl relative p-6 m-4 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white z-10 p-2 rounded-full bg-transparent hover:bg-gray-700 transition-colors"
+          aria-label="Close lineage">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+        <h2 id="lineage-title" className="text-2xl font-bold text-white mb-1">
+          Lineage
+        </h2>
+        <p className="text-gray-400 mb-4">
+          {ancestors.length === 0
+            ? 'This video is an original.'
+            : `${ancestors.length} ${
+                ancestors.length === 1 ? 'generation' : 'generations'
+              } from the original.`}{' '}
+          Select a video to play it.
+        </p>
+        <ul className="overflow-y-auto space-y-1">
+          <LineageNode
+            video={root}
+            childrenByParent={childrenByParent}
+            currentId={video.id}
+            ancestorIds={new Set(ancestors.map((v) => v.id))}
+            onSelectVideo={onSelectVideo}
+          />
+        </ul>
+      </div>
+    </div>
+  );
+};
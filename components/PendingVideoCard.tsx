@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {GenerationJob} from '../types';
+
+interface PendingVideoCardProps {
+  job: GenerationJob;
+  index: number;
+}
+
+export const JOB_STATUS_LABELS: Record<GenerationJob['status'], string> = {
+  waiting: 'Waiting to retry',
+  queued: 'Queued',
+  polling: 'Generating...',
+  downloading: 'Downloading...',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * A placeholder card shown in the grid while a queued generation is running.
+ * It is replaced by the real video card once the job is done.
+ */
+export const PendingVideoCard: React.FC<PendingVideoCardProps> = ({
+  job,
+  index,
+}) => {
+  const title =
+    job.numberOfVideos > 1
+      ? `${job.title} (${index + 1}/${job.numberOfVideos})`
+      : job.title;
+
+  return (
+    <div
+      className="w-full bg-gray-800/50 rounded-lg overflow-hidden shadow-lg"
+      aria-busy="true"
+      aria-label={`Generating video: ${title}`}>
+      <div className="w-full h-48 bg-gray-800 flex flex-col items-center justify-center gap-3 animate-pulse">
+        <div className="w-10 h-10 border-4 border-dashed rounded-full animate-spin border-purple-500"></div>
+        <span className="text-sm text-gray-400">
+          {JOB_STATUS_LABELS[job.status]}
+        </span>
+      </div>
+      <div className="p-4">
+        <h3
+          className="text-base font-semibold text-gray-400 truncate"
+          title={title}>
+          {title}
+        </h3>
+      </div>
+    </div>
+  );
+};
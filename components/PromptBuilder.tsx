@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {PromptParts} from '../types';
+import {XMarkIcon} from './icons';
+
+type TextPart = Exclude<keyof PromptParts, 'dialogue'>;
+
+const TEXT_FIELDS: {
+  part: TextPart;
+  label: string;
+  placeholder: string;
+  rows: number;
+}[] = [
+  {
+    part: 'style',
+    label: 'Style',
+    placeholder: 'e.g., Claymation (Stop Motion)',
+    rows: 1,
+  },
+  {
+    part: 'scene',
+    label: 'Scene',
+    placeholder: 'Where and when it takes place, the light and mood',
+    rows: 2,
+  },
+  {
+    part: 'subjects',
+    label: 'Subjects',
+    placeholder: 'Who or what is in the video and what they do',
+    rows: 2,
+  },
+  {
+    part: 'camera',
+    label: 'Camera',
+    placeholder: 'e.g., A slow tracking shot pulls back to reveal...',
+    rows: 2,
+  },
+  {
+    part: 'audio',
+    label: 'Audio',
+    placeholder: 'Sound effects, ambience and music',
+    rows: 2,
+  },
+];
+
+const INPUT_CLASS_NAME =
+  'w-full bg-gray-900 border border-gray-700 rounded-lg p-2 text-sm text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500';
+
+interface PromptBuilderProps {
+  value: PromptParts;
+  onChange: (parts: PromptParts) => void;
+}
+
+/**
+ * Edits a prompt as separate parts: style, scene, subjects, camera, lines of
+ * dialogue and audio cues.
+ */
+export const PromptBuilder: React.FC<PromptBuilderProps> = ({
+  value,
+  onChange,
+}) => {
+  const setDialogue = (dialogue: string[]) => onChange({...value, dialogue});
+
+  const renderTextField = ({
+    part,
+    label,
+    placeholder,
+    rows,
+  }: (typeof TEXT_FIELDS)[number]) => (
+    <div key={part}>
+      <label
+        htmlFor={`prompt-${part}`}
+        className="block text-xs font-medium text-gray-400 mb-1">
+        {label}
+      </label>
+      {rows === 1 ? (
+        <input
+          type="text"
+          id={`prompt-${part}`}
+          className={INPUT_CLASS_NAME}
+          value={value[part]}
+          onChange={(e) => onChange({...value, [part]: e.target.value})}
+          placeholder={placeholder}
+        />
+      ) : (
+        <textarea
+          id={`prompt-${part}`}
+          rows={rows}
+          className={INPUT_CLASS_NAME}
+          value={value[part]}
+          onChange={(e) => onChange({...value, [part]: e.target.value})}
+          placeholder={placeholder}
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {TEXT_FIELDS.filter(({part}) => part !== 'audio').map(renderTextField)}
+      <div>
+        <span className="block text-xs font-medium text-gray-400 mb-1">
+          Dialogue
+        </span>
+        <div className="space-y-2">
+          {value.dialogue.map((line, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                className={INPUT_CLASS_NAME}
+                value={line}
+                onChange={(e) =>
+                  setDialogue(
+                    value.dialogue.map((l, i) =>
+                      i === index ? e.target.value : l,
+                    ),
+                  )
+                }
+                placeholder='e.g., She whispers, "We are not alone."'
+                aria-label={`Dialogue line ${index + 1}`}
+              />
+              <button
+                onClick={() =>
+                  setDialogue(value.dialogue.filter((_, i) => i !== index))
+                }
+                className="p-2 rounded-full text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+                aria-label={`Remove dialogue line ${index + 1}`}>
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setDialogue([...value.dialogue, ''])}
+            className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-sm text-white font-semibold transition-colors">
+            + Add line
+          </button>
+        </div>
+      </div>
+      {TEXT_FIELDS.filter(({part}) => part === 'audio').map(renderTextField)}
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useEffect, useRef, useState} from 'react';
+import {PROMPT_STYLES} from '../constants';
+import {enhancePrompt, getModelName} from '../services/generation';
+import {diffWords} from '../services/textDiff';
+import {GenerationOptions} from '../types';
+import {GenerationSettings} from './GenerationSettings';
+import {XMarkIcon} from './icons';
+
+const DEFAULT_OPTIONS: GenerationOptions = {
+  numberOfVideos: 1,
+  aspectRatio: '16:9',
+  quality: 'fast',
+  duration: 'medium',
+};
+
+interface PromptReviewModalProps {
+  initialPrompt: string;
+  onGenerate: (prompt: string, options: GenerationOptions) => void;
+  onClose: () => void;
+}
+
+/**
+ * A modal that confirms a generation from a typed prompt and shows the
+ * settings it will use. The prompt can be expanded or rewritten in a style
+ * by a text model; the suggestion is shown as a diff and only replaces the
+ * prompt once accepted.
+ */
+export const PromptReviewModal: React.FC<PromptReviewModalProps> = ({
+  initialPrompt,
+  onGenerate,
+  onClose,
+}) => {
+  const promptRef = useRef<HTMLTextAreaElement>(null);
+  const enhanceControllerRef = useRef<AbortController | null>(null);
+  const [prompt, setPrompt] = useState(initialPrompt);
+  const [style, setStyle] = useState<string | undefined>(undefined);
+  const [suggestion, setSuggestion] = useState<string | null>(null);
+  const [isEnhancing, setIsEnhancing] = useState(false);
+  const [enhanceError, setEnhanceError] = useState<string | null>(null);
+  const [options, setOptions] = useState(DEFAULT_OPTIONS);
+
+  useEffect(() => () => enhanceControllerRef.current?.abort(), []);
+
+  const handleEnhance = async () => {
+    enhanceControllerRef.current?.abort();
+    const controller = new AbortController();
+    enhanceControllerRef.current = controller;
+    setIsEnhancing(true);
+    setEnhanceError(null);
+    setSuggestion(null);
+    try {
+      setSuggestion(await enhancePrompt(prompt, style, controller.signal));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Prompt enhancement failed:', error);
+      setEnhanceError('Could not enhance the prompt. Please try again.');
+    } finally {
+      if (enhanceControllerRef.current === controller) {
+        setIsEnhancing(false);
+      }
+    }
+  };
+
+  const acceptSuggestion = () => {
+    setPrompt(suggestion);
+    setSuggestion(null);
+    promptRef.current?.focus();
+  };
+
+  const canGenerate = prompt.trim() !== '' && !isEnhancing;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/80 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="prompt-review-title">
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-2xl relative p-6 md:p-8 m-4 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white z-10 p-2 rounded-full bg-transparent hover:bg-gray-700 transition-colors"
+          aria-label="Close">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+        <h2
+          id="prompt-review-title"
+          className="text-2xl font-bold text-white mb-1">
+          Generate Video
+        </h2>
+        <p className="text-gray-400 mb-6">
+          Detailed prompts give much better videos. Enhance your idea, then
+          review the changes before generating.
+        </p>
+
+        <label
+          htmlFor="review-prompt"
+          className="block text-sm font-medium text-gray-300 mb-2">
+          Prompt
+        </label>
+        <textarea
+          id="review-prompt"
+          ref={promptRef}
+          rows={5}
+          className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+        />
+
+        <label className="block text-sm font-medium text-gray-300 mt-4 mb-2">
+          Style
+        </label>
+        <div className="flex flex-wrap gap-2">
+          {[undefined, ...PROMPT_STYLES].map((value) => (
+            <button
+              key={value ?? 'none'}
+              onClick={() => setStyle(value)}
+              className={`px-3 py-1 text-sm font-medium rounded-full transition-colors ${
+                style === value
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}>
+              {value ?? 'Keep as is'}
+            </button>
+          ))}
+        </div>
+
+        <button
+          onClick={handleEnhance}
+          disabled={prompt.trim() === '' || isEnhancing}
+          className="mt-4 px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+          {isEnhancing
+            ? 'Enhancing...'
+            : style
+              ? 'Rewrite prompt'
+              : 'Enhance prompt'}
+        </button>
+        {enhanceError && (
+          <p className="text-sm text-red-400 mt-2">{enhanceError}</p>
+        )}
+
+        {suggestion && (
+          <div className="mt-4">
+            <p className="text-sm font-medium text-gray-300 mb-2">
+              Suggested changes
+            </p>
+            <div className="bg-gray-900 border border-gray-700 rounded-lg p-3 text-sm leading-relaxed max-h-60 overflow-y-auto">
+              {diffWords(prompt, suggestion).map((part, index) =>
+                part.type === 'same' ? (
+                  <span key={index} className="text-gray-300">
+                    {part.text}
+                  </span>
+                ) : part.type === 'added' ? (
+                  <ins
+                    key={index}
+                    className="no-underline bg-green-500/20 text-green-300">
+                    {part.text}
+                  </ins>
+                ) : (
+                  <del
+                    key={index}
+                    className="bg-red-500/20 text-red-300 line-through">
+                    {part.text}
+                  </del>
+                ),
+              )}
+            </div>
+            <div className="mt-2 flex gap-2">
+              <button
+                onClick={acceptSuggestion}
+                className="px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white text-sm font-semibold transition-colors">
+                Accept and edit
+              </button>
+              <button
+                onClick={() => setSuggestion(null)}
+                className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-700 text-white text-sm font-semibold transition-colors">
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
+        <h3 className="text-lg font-semibold text-white mt-6 mb-4">
+          Settings
+        </h3>
+        <GenerationSettings value={options} onChange={setOptions} />
+        <p className="text-xs text-gray-400 mt-4">
+          Model:{' '}
+          {getModelName({...options, prompt, title: '', description: ''})}
+        </p>
+
+        <div className="mt-8 flex justify-end gap-4">
+          <button
+            onClick={onClose}
+            className="px-6 py-2 rounded-lg bg-gray-600 hover:bg-gray-700 text-white font-semibold transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onGenerate(prompt.trim(), options)}
+            disabled={!canGenerate}
+            className="px-6 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            {options.numberOfVideos > 1
+              ? `Generate ${options.numberOfVideos} videos`
+              : 'Generate video'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
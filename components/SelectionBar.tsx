@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {TrashIcon} from './icons';
+
+interface SelectionBarProps {
+  selectedCount: number;
+  selectableCount: number;
+  onSelectAll: () => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}
+
+/** Actions for the videos selected in the grid. */
+export const SelectionBar: React.FC<SelectionBarProps> = ({
+  selectedCount,
+  selectableCount,
+  onSelectAll,
+  onDelete,
+  onCancel,
+}) => (
+  <div className="mb-6 flex flex-wrap items-center gap-3 bg-gray-800 border border-gray-700 rounded-lg px-4 py-2">
+    <span className="text-sm text-gray-200 font-semibold">
+      {selectedCount} selected
+    </span>
+    <button
+      onClick={onSelectAll}
+      disabled={selectedCount === selectableCount}
+      className="text-sm text-purple-400 hover:text-purple-300 disabled:text-gray-500 disabled:cursor-not-allowed">
+      Select all {selectableCount}
+    </button>
+    <div className="flex-grow" />
+    <button
+      onClick={onDelete}
+      disabled={selectedCount === 0}
+      className="flex items-center gap-2 px-3 py-1 rounded-lg bg-red-600 hover:bg-red-700 text-white font-semibold transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+      <TrashIcon className="w-4 h-4" />
+      Delete
+    </button>
+    <button
+      onClick={onCancel}
+      className="px-3 py-1 rounded-lg bg-gray-600 hover:bg-gray-700 text-white font-semibold transition-colors text-sm">
+      Cancel
+    </button>
+  </div>
+);
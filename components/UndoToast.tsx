@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import {ArrowUturnLeftIcon, XMarkIcon} from './icons';
+
+interface UndoToastProps {
+  message: string;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+/** A notice at the bottom of the screen offering to undo the last action. */
+export const UndoToast: React.FC<UndoToastProps> = ({
+  message,
+  onUndo,
+  onDismiss,
+}) => (
+  <div
+    className="fixed bottom-4 left-4 z-40 flex items-center gap-4 bg-gray-800 border border-gray-700 rounded-lg shadow-2xl py-3 pl-4 pr-2 animate-fade-in"
+    role="status">
+    <span className="text-sm text-gray-200">{message}</span>
+    <button
+      onClick={onUndo}
+      className="flex items-center gap-1 text-sm font-semibold text-purple-400 hover:text-purple-300">
+      <ArrowUturnLeftIcon className="w-4 h-4" />
+      Undo
+    </button>
+    <button
+      onClick={onDismiss}
+      className="p-1 rounded-full text-gray-400 hover:text-white hover:bg-gray-700"
+      aria-label="Dismiss">
+      <XMarkIcon className="w-4 h-4" />
+    </button>
+  </div>
+);
@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useRef, useState} from 'react';
+import {useVideoUrls} from '../hooks/useVideoUrl';
+import {Video} from '../types';
+import {PlayIcon, StarIcon, XMarkIcon} from './icons';
+
+interface VariationCompareProps {
+  /** The variations of one generation, in the order they were generated. */
+  videos: Video[];
+  onArchiveRest: (rest: Video[]) => void;
+  onDeleteRest: (rest: Video[]) => void;
+  onClose: () => void;
+}
+
+/** How far, in seconds, a take may drift from the first before it's synced. */
+const MAX_DRIFT_SECONDS = 0.15;
+
+function formatTime(time: number) {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
+
+/**
+ * Plays the variations of a generation side by side on a shared timeline, so
+ * the best takes can be marked and the rest archived or deleted in one step.
+ * The first take leads; the others follow its clock. Only one take is heard.
+ */
+export const VariationCompare: React.FC<VariationCompareProps> = ({
+  videos,
+  onArchiveRest,
+  onDeleteRest,
+  onClose,
+}) => {
+  const videoRefs = useRef(new Map<string, HTMLVideoElement>());
+  const videoUrls = useVideoUrls(videos);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [audibleId, setAudibleId] = useState(videos[0]?.id);
+  const [winnerIds, setWinnerIds] = useState<Set<string>>(new Set());
+
+  const leaderId = videos[0]?.id;
+  const rest = videos.filter((video) => !winnerIds.has(video.id));
+  const isVertical = videos[0]?.generation?.options.aspectRatio === '9:16';
+
+  const forEachVideo = (callback: (element: HTMLVideoElement) => void) =>
+    videoRefs.current.forEach(callback);
+
+  const play = () => {
+    forEachVideo((element) =>
+      element.play().catch((error) => console.error('Playback failed:', error)),
+    );
+    setIsPlaying(true);
+  };
+
+  const pause = () => {
+    forEachVideo((element) => element.pause());
+    setIsPlaying(false);
+  };
+
+  const seek = (time: number) => {
+    forEachVideo((element) => {
+      element.currentTime = Math.min(time, element.duration || time);
+    });
+    setCurrentTime(time);
+  };
+
+  const handleTimeUpdate = (leader: HTMLVideoElement) => {
+    setCurrentTime(leader.currentTime);
+    forEachVideo((element) => {
+      if (
+        element !== leader &&
+        !element.ended &&
+        Math.abs(element.currentTime - leader.currentTime) > MAX_DRIFT_SECONDS
+      ) {
+        element.currentTime = leader.currentTime;
+      }
+    });
+  };
+
+  const handleLeaderEnded = () => {
+    // Start every take over together, instead of each looping on its own.
+    seek(0);
+    if (isPlaying) {
+      play();
+    }
+  };
+
+  const toggleWinner = (video: Video) => {
+    setWinnerIds((current) => {
+      const winners = new Set(current);
+      if (!winners.delete(video.id)) {
+        winners.add(video.id);
+      }
+      return winners;
+    });
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/90 z-50 flex items-center justify-center animate-fade-in"
+      onClick={onClose}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') onClose();
+      }}
+      aria-modal="true"
+      role="dialog"
+      aria-labelledby="compare-title">
+      <div
+        className="bg-gray-800 rounded-lg shadow-2xl w-full max-w-6xl relative p-4 sm:p-6 m-4 max-h-[95vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}>
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-gray-400 hover:text-white z-10 p-2 rounded-full bg-transparent hover:bg-gray-700 transition-colors"
+          aria-label="Close comparison">
+          <XMarkIcon className="w-6 h-6" />
+        </button>
+        <h2 id="compare-title" className="text-2xl font-bold text-white mb-1">
+          Compare variations
+        </h2>
+        <p className="text-gray-400 mb-4">
+          Mark the takes you want to keep, then archive or delete the rest.
+        </p>
+        <div
+          className={`grid gap-3 overflow-y-auto ${
+            isVertical ? 'grid-cols-2 sm:grid-cols-4' : 'grid-cols-2'
+          }`}>
+          {videos.map((video, index) => {
+            const isWinner = winnerIds.has(video.id);
+            return (
+              <div
+                key={video.id}
+                className={`relative rounded-lg overflow-hidden bg-black ring-2 ${
+                  isWinner ? 'ring-purple-500' : 'ring-transparent'
+                }`}>
+                <video
+                  ref={(element) => {
+                    if (element) {
+                      videoRefs.current.set(video.id, element);
+                    } else {
+                      videoRefs.current.delete(video.id);
+                    }
+                  }}
+                  className={`w-full object-contain ${
+                    isVertical ? 'aspect-[9/16]' : 'aspect-video'
+                  }`}
+                  src={videoUrls[video.id]}
+                  poster={video.poster}
+                  muted={video.id !== audibleId}
+                  playsInline
+                  preload="auto"
+                  onLoadedMetadata={(e) => {
+                    const {duration: takeDuration} = e.currentTarget;
+                    setDuration((current) => Math.max(current, takeDuration));
+                  }}
+                  onTimeUpdate={
+                    video.id === leaderId
+                      ? (e) => handleTimeUpdate(e.currentTarget)
+                      : undefined
+                  }
+                  onEnded={
+                    video.id === leaderId ? handleLeaderEnded : undefined
+                  }
+                  aria-label={video.title}
+                />
+                <div className="absolute top-2 left-2 right-2 flex items-center justify-between gap-2">
+                  <span className="bg-black/70 text-xs text-gray-200 rounded-full px-2 py-1">
+                    Take {index + 1}
+                  </span>
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => setAudibleId(video.id)}
+                      aria-pressed={video.id === audibleId}
+                      className={`text-xs rounded-full px-2 py-1 transition-colors ${
+                        video.id === audibleId
+                          ? 'bg-gray-200 text-gray-900'
+                          : 'bg-black/70 text-gray-300 hover:text-white'
+                      }`}>
+                      Sound
+                    </button>
+                    <button
+                      onClick={() => toggleWinner(video)}
+                      aria-pressed={isWinner}
+                      className={`flex items-center gap-1 text-xs font-semibold rounded-full px-2 py-1 transition-colors ${
+                        isWinner
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-black/70 text-gray-300 hover:text-white'
+                      }`}>
+                      <StarIcon className="w-3.5 h-3.5" />
+                      {isWinner ? 'Keeper' : 'Keep'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="mt-4 flex items-center gap-3">
+          <button
+            onClick={isPlaying ? pause : play}
+            className="flex-shrink-0 px-3 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-white font-semibold transition-colors text-sm"
+            aria-label={isPlaying ? 'Pause all takes' : 'Play all takes'}>
+            {isPlaying ? 'Pause' : <PlayIcon className="w-5 h-5" />}
+          </button>
+          <input
+            type="range"
+            min={0}
+            max={duration || 0}
+            step={0.01}
+            value={currentTime}
+            onChange={(e) => seek(Number(e.target.value))}
+            className="flex-1 accent-purple-500"
+            aria-label="Timeline of all takes"
+          />
+          <span className="flex-shrink-0 text-sm text-gray-400 tabular-nums">
+            {formatTime(currentTime)} / {formatTime(duration)}
+          </span>
+        </div>
+        <div className="mt-4 flex flex-wrap items-center justify-end gap-2">
+          <span className="text-sm text-gray-400 mr-auto">
+            {winnerIds.size === 0
+              ? 'No takes marked yet.'
+              : `Keeping ${winnerIds.size} of ${videos.length}.`}
+          </span>
+          <button
+            onClick={() => onArchiveRest(rest)}
+            disabled={winnerIds.size === 0 || rest.length === 0}
+            className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-700 text-white font-semibold transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+            Archive the rest
+          </button>
+          <button
+            onClick={() => onDeleteRest(rest)}
+            disabled={winnerIds.size === 0 || rest.length === 0}
+            className="px-4 py-2 rounded-lg bg-red-600 hover:bg-red-700 text-white font-semibold transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+            Delete the rest
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,44 +2,206 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, {useState} from 'react';
+import {useVideoUrl} from '../hooks/useVideoUrl';
+import {getMatchExcerpt, highlightMatches} from '../services/search';
 import {Video} from '../types';
-import {PlayIcon} from './icons';
+import {
+  DocumentDuplicateIcon,
+  PencilSquareIcon,
+  PlayIcon,
+  StarIcon,
+  TrashIcon,
+} from './icons';
+import {VideoDetails, VideoDetailsForm} from './VideoDetailsForm';
+
+/** What can be done to a video the user owns, from its card. */
+export interface VideoCardActions {
+  onUpdateDetails: (video: Video, details: VideoDetails) => void;
+  onDuplicate: (video: Video) => void;
+  onDelete: (video: Video) => void;
+}
 
 interface VideoCardProps {
   video: Video;
   onPlay: (video: Video) => void;
+  /** The search query whose matching words are highlighted. */
+  highlight?: string;
+  /** Omitted for videos that can't be changed. */
+  actions?: VideoCardActions;
+  /**
+   * While selecting, clicking the card toggles its selection instead of
+   * playing it. Cards without `onToggleSelect` can't be selected.
+   */
+  isSelecting?: boolean;
+  isSelected?: boolean;
+  onToggleSelect?: (video: Video) => void;
 }
 
+const actionClassName =
+  'p-1.5 rounded-full bg-black/70 text-gray-200 hover:text-white hover:bg-black/90 transition-colors';
+
+const Highlighted: React.FC<{text: string; query: string}> = ({
+  text,
+  query,
+}) => (
+  <>
+    {highlightMatches(text, query).map((part, index) =>
+      part.isMatch ? (
+        <mark key={index} className="bg-purple-500/40 text-white rounded-sm">
+          {part.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{part.text}</React.Fragment>
+      ),
+    )}
+  </>
+);
+
 /**
  * A component that renders a video card with a thumbnail, title, and play button.
+ * While searching, matching words are highlighted and an excerpt of the
+ * description around the first match is shown. Videos the user owns can be
+ * renamed, duplicated and deleted from the card.
  */
-export const VideoCard: React.FC<VideoCardProps> = ({video, onPlay}) => {
+export const VideoCard: React.FC<VideoCardProps> = ({
+  video,
+  onPlay,
+  highlight = '',
+  actions,
+  isSelecting = false,
+  isSelected = false,
+  onToggleSelect,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const videoUrl = useVideoUrl(video);
+  const excerpt = highlight
+    ? getMatchExcerpt(video.description, highlight)
+    : null;
+  const isSelectable = isSelecting && onToggleSelect !== undefined;
+
+  const saveDetails = (details: VideoDetails) => {
+    actions?.onUpdateDetails(video, details);
+    setIsEditing(false);
+  };
+
   return (
-    <button
-      type="button"
-      className="group w-full text-left bg-gray-800/50 rounded-lg overflow-hidden shadow-lg hover:shadow-gray-500/30 transform transition-all duration-300 hover:-translate-y-2 cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-900"
-      onClick={() => onPlay(video)}
-      aria-label={`Play video: ${video.title}`}>
-      <div className="relative">
-        <video
-          className="w-full h-48 object-cover pointer-events-none"
-          src={video.videoUrl}
-          muted
-          playsInline
-          preload="metadata"
-          aria-hidden="true"></video>
-        <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-          <PlayIcon className="w-16 h-16 text-white opacity-80 drop-shadow-lg group-hover:opacity-100 transform group-hover:scale-110 transition-transform" />
+    <div
+      className={`group relative bg-gray-800/50 rounded-lg overflow-hidden shadow-lg hover:shadow-gray-500/30 transform transition-all duration-300 ${
+        isEditing || isSelecting ? '' : 'hover:-translate-y-2'
+      } ${isSelected ? 'ring-2 ring-purple-500' : ''} ${
+        isSelecting && !isSelectable ? 'opacity-50' : ''
+      }`}>
+      <button
+        type="button"
+        className="w-full text-left cursor-pointer focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500 focus-visible:ring-inset disabled:cursor-not-allowed"
+        onClick={() =>
+          isSelecting ? onToggleSelect?.(video) : onPlay(video)
+        }
+        disabled={isSelecting && !isSelectable}
+        aria-pressed={isSelecting ? isSelected : undefined}
+        aria-label={
+          isSelecting
+            ? `Select video: ${video.title}`
+            : `Play video: ${video.title}`
+        }>
+        <div className="relative">
+          <video
+            className="w-full h-48 object-cover pointer-events-none"
+            src={videoUrl}
+            poster={video.poster}
+            muted
+            playsInline
+            preload="metadata"
+            aria-hidden="true"></video>
+          {video.captionStatus === 'pending' && (
+            <div className="absolute bottom-2 left-2 flex items-center gap-2 bg-black/70 text-xs text-gray-200 rounded-full px-3 py-1">
+              <div className="w-3 h-3 border-2 border-dashed rounded-full animate-spin border-purple-400"></div>
+              Describing...
+            </div>
+          )}
+          {video.captionStatus === 'failed' && (
+            <div className="absolute bottom-2 left-2 bg-black/70 text-xs text-red-300 rounded-full px-3 py-1">
+              No description
+            </div>
+          )}
+          {(video.isFavorite || video.rating) && (
+            <div className="absolute top-2 right-2 flex items-center gap-1 bg-black/70 text-xs text-gray-200 rounded-full px-2 py-1">
+              {video.isFavorite && (
+                <StarIcon
+                  className="w-3.5 h-3.5 text-yellow-400"
+                  aria-label="Favorite"
+                />
+              )}
+              {video.rating && <span>{video.rating}/5</span>}
+            </div>
+          )}
+          {isSelectable && (
+            <div
+              className={`absolute top-2 left-2 w-5 h-5 rounded border-2 ${
+                isSelected
+                  ? 'bg-purple-600 border-purple-600'
+                  : 'bg-black/50 border-gray-300'
+              }`}
+              aria-hidden="true"
+            />
+          )}
+          {!isSelecting && (
+            <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+              <PlayIcon className="w-16 h-16 text-white opacity-80 drop-shadow-lg group-hover:opacity-100 transform group-hover:scale-110 transition-transform" />
+            </div>
+          )}
+        </div>
+        {!isEditing && (
+          <div className="p-4">
+            <h3
+              className="text-base font-semibold text-gray-200 truncate"
+              title={video.title}>
+              <Highlighted text={video.title} query={highlight} />
+            </h3>
+            {excerpt && (
+              <p className="text-xs text-gray-400 mt-1 line-clamp-2">
+                <Highlighted text={excerpt} query={highlight} />
+              </p>
+            )}
+          </div>
+        )}
+      </button>
+      {isEditing && (
+        <div className="p-4">
+          <VideoDetailsForm
+            video={video}
+            onSave={saveDetails}
+            onCancel={() => setIsEditing(false)}
+            compact
+          />
+        </div>
+      )}
+      {actions && !isSelecting && !isEditing && (
+        <div className="absolute top-2 left-2 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          <button
+            onClick={() => setIsEditing(true)}
+            className={actionClassName}
+            aria-label={`Rename ${video.title}`}
+            title="Rename or edit description">
+            <PencilSquareIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => actions.onDuplicate(video)}
+            className={actionClassName}
+            aria-label={`Duplicate ${video.title}`}
+            title="Duplicate">
+            <DocumentDuplicateIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => actions.onDelete(video)}
+            className={actionClassName}
+            aria-label={`Delete ${video.title}`}
+            title="Delete">
+            <TrashIcon className="w-4 h-4" />
+          </button>
         </div>
-      </div>
-      <div className="p-4">
-        <h3
-          className="text-base font-semibold text-gray-200 truncate"
-          title={video.title}>
-          {video.title}
-        </h3>
-      </div>
-    </button>
+      )}
+    </div>
   );
 };
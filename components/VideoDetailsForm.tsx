@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {Video} from '../types';
+
+/** The parts of a video the user can edit directly. */
+export type VideoDetails = Pick<Video, 'title' | 'description'>;
+
+interface VideoDetailsFormProps {
+  video: Video;
+  onSave: (details: VideoDetails) => void;
+  onCancel: () => void;
+  /** Fewer description rows, for small spaces like a grid card. */
+  compact?: boolean;
+}
+
+/** An inline form for renaming a video and editing its description. */
+export const VideoDetailsForm: React.FC<VideoDetailsFormProps> = ({
+  video,
+  onSave,
+  onCancel,
+  compact = false,
+}) => {
+  const [title, setTitle] = useState(video.title);
+  const [description, setDescription] = useState(video.description);
+  const canSave = title.trim() !== '' && description.trim() !== '';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    onSave({title: title.trim(), description: description.trim()});
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') {
+          e.stopPropagation();
+          onCancel();
+        }
+      }}
+      className="space-y-2">
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        autoFocus
+        aria-label="Video title"
+        className="w-full bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-gray-200 text-sm font-semibold focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+      />
+      <textarea
+        rows={compact ? 3 : 4}
+        value={description}
+        onChange={(e) => setDescription(e.target.value)}
+        aria-label="Video description"
+        className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-gray-200 text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200"
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!canSave}
+          className="px-3 py-1 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1 rounded-lg bg-gray-600 hover:bg-gray-700 text-white font-semibold transition-colors text-sm">
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -3,23 +3,64 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React from 'react';
-import {Video} from '../types';
-import {VideoCard} from './VideoCard';
+import {GenerationJob, Video} from '../types';
+import {PendingVideoCard} from './PendingVideoCard';
+import {VideoCard, VideoCardActions} from './VideoCard';
 
 interface VideoGridProps {
   videos: Video[];
+  pendingJobs?: GenerationJob[];
   onPlayVideo: (video: Video) => void;
+  /** The search query to highlight in the cards. */
+  highlight?: string;
+  /** Ids of the videos that can be changed, selected and deleted. */
+  manageableIds?: Set<string>;
+  actions?: VideoCardActions;
+  /** The selected videos while selecting, otherwise null. */
+  selectedIds?: Set<string> | null;
+  onToggleSelect?: (video: Video) => void;
 }
 
 /**
- * A component that renders a grid of video cards.
+ * A component that renders a grid of video cards, preceded by a placeholder
+ * card for every video that is still being generated.
  */
-export const VideoGrid: React.FC<VideoGridProps> = ({videos, onPlayVideo}) => {
+export const VideoGrid: React.FC<VideoGridProps> = ({
+  videos,
+  pendingJobs = [],
+  onPlayVideo,
+  highlight,
+  manageableIds,
+  actions,
+  selectedIds = null,
+  onToggleSelect,
+}) => {
   return (
     <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-6">
-      {videos.map((video) => (
-        <VideoCard key={video.id} video={video} onPlay={onPlayVideo} />
-      ))}
+      {pendingJobs.flatMap((job) =>
+        Array.from({length: job.numberOfVideos}, (_, index) => (
+          <PendingVideoCard
+            key={`${job.id}-${index}`}
+            job={job}
+            index={index}
+          />
+        )),
+      )}
+      {videos.map((video) => {
+        const isManageable = manageableIds?.has(video.id) ?? false;
+        return (
+          <VideoCard
+            key={video.id}
+            video={video}
+            onPlay={onPlayVideo}
+            highlight={highlight}
+            actions={isManageable ? actions : undefined}
+            isSelecting={selectedIds !== null}
+            isSelected={selectedIds?.has(video.id) ?? false}
+            onToggleSelect={isManageable ? onToggleSelect : undefined}
+          />
+        );
+      })}
     </div>
   );
 };
@@ -0,0 +1,440 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import {
+  captureVideoFrame,
+  getContentRect,
+  seekVideo,
+} from '../services/frames';
+import {
+  drawMaskShapes,
+  hasMaskContent,
+  renderMaskImage,
+  shapesAtTime,
+} from '../services/maskShapes';
+import {
+  ImageInput,
+  MaskKeyframe,
+  MaskPoint,
+  MaskShape,
+  MaskTimeRange,
+  MaskTool,
+} from '../types';
+import {ArrowUturnLeftIcon, ArrowUturnRightIcon, TrashIcon} from './icons';
+
+const MASK_COLOR = 'rgb(168, 85, 247)';
+
+/** Brush sizes, in pixels at the size the video is displayed. */
+const MIN_BRUSH_SIZE = 4;
+const MAX_BRUSH_SIZE = 80;
+const DEFAULT_BRUSH_SIZE = 20;
+
+/** Drawing this close to a keyframe, in seconds, edits that keyframe. */
+const KEYFRAME_SNAP = 0.05;
+
+const TOOLS: {tool: MaskTool; label: string}[] = [
+  {tool: 'brush', label: 'Brush'},
+  {tool: 'eraser', label: 'Eraser'},
+  {tool: 'rectangle', label: 'Rectangle'},
+  {tool: 'ellipse', label: 'Ellipse'},
+];
+
+interface VideoMaskEditorProps {
+  videoUrl: string;
+  onMaskChange: (isMasking: boolean) => void;
+}
+
+/**
+ * Lets the page read when the mask applies, and export the mask together with
+ * the frame it starts on.
+ */
+export interface VideoMaskEditorHandle {
+  getTiming: () => {
+    timeRange: MaskTimeRange | null;
+    keyframes: MaskKeyframe[];
+  };
+  exportRegion: () => Promise<{frame: ImageInput; mask: ImageInput}>;
+}
+
+function formatTime(seconds: number) {
+  return `${seconds.toFixed(1)}s`;
+}
+
+/**
+ * A video with a timeline scrubber and a drawing overlay for marking the area
+ * to change. Works with mouse, touch and pen. Drawing at a point of the clip
+ * creates or edits a keyframe there, and the mask is interpolated between
+ * keyframes. Shapes are kept in coordinates normalized to the video picture,
+ * so the mask survives resizes and exports at full resolution.
+ */
+export const VideoMaskEditor = forwardRef<
+  VideoMaskEditorHandle,
+  VideoMaskEditorProps
+>(({videoUrl, onMaskChange}, ref) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVideoReady, setIsVideoReady] = useState(false);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [canvasSize, setCanvasSize] = useState({width: 0, height: 0});
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(DEFAULT_BRUSH_SIZE);
+  const [keyframes, setKeyframes] = useState<MaskKeyframe[]>([]);
+  const [timeRange, setTimeRange] = useState<MaskTimeRange | null>(null);
+  const [draft, setDraft] = useState<MaskShape | null>(null);
+  // Undo and redo stacks of earlier and undone versions of `keyframes`.
+  const [past, setPast] = useState<MaskKeyframe[][]>([]);
+  const [future, setFuture] = useState<MaskKeyframe[][]>([]);
+
+  const shapes = useMemo(
+    () => shapesAtTime(keyframes, currentTime),
+    [keyframes, currentTime],
+  );
+  const currentKeyframe = keyframes.find(
+    (keyframe) => Math.abs(keyframe.time - currentTime) < KEYFRAME_SNAP,
+  );
+  const hasMask = keyframes.some((keyframe) =>
+    hasMaskContent(keyframe.shapes),
+  );
+  // The frame sent to the model is the first one the edit applies to.
+  const exportTime = timeRange?.start ?? keyframes[0]?.time ?? currentTime;
+
+  useEffect(() => {
+    onMaskChange(hasMask);
+  }, [hasMask, onMaskChange]);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      getTiming: () => ({timeRange, keyframes}),
+      exportRegion: async () => {
+        const video = videoRef.current;
+        await seekVideo(video, exportTime);
+        const frame = await captureVideoFrame(video);
+        const mask = renderMaskImage(
+          shapesAtTime(keyframes, exportTime),
+          video.videoWidth,
+          video.videoHeight,
+        );
+        return {frame, mask};
+      },
+    }),
+    [timeRange, keyframes, exportTime],
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(() =>
+      setCanvasSize({width: canvas.clientWidth, height: canvas.clientHeight}),
+    );
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const video = videoRef.current;
+    if (!canvas || !video) return;
+
+    // Resizing the canvas also clears it.
+    canvas.width = canvasSize.width;
+    canvas.height = canvasSize.height;
+    if (!isVideoReady) return;
+
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    drawMaskShapes(
+      context,
+      draft ? [...shapes, draft] : shapes,
+      getContentRect(video),
+      MASK_COLOR,
+    );
+  }, [shapes, draft, canvasSize, isVideoReady]);
+
+  const toMaskPoint = (
+    event: React.PointerEvent<HTMLCanvasElement>,
+  ): MaskPoint => {
+    const content = getContentRect(videoRef.current);
+    const {offsetX, offsetY} = event.nativeEvent;
+    return {
+      x: (offsetX - content.x) / content.width,
+      y: (offsetY - content.y) / content.height,
+    };
+  };
+
+  const commit = (nextKeyframes: MaskKeyframe[]) => {
+    setPast((currentPast) => [...currentPast, keyframes]);
+    setKeyframes(nextKeyframes);
+    setFuture([]);
+  };
+
+  /** Stores `nextShapes` as the keyframe at the current time. */
+  const commitShapes = (nextShapes: MaskShape[]) => {
+    const time = currentKeyframe?.time ?? Math.round(currentTime * 100) / 100;
+    const otherKeyframes = keyframes.filter(
+      (keyframe) => keyframe.time !== time,
+    );
+    commit(
+      [...otherKeyframes, {time, shapes: nextShapes}].sort(
+        (a, b) => a.time - b.time,
+      ),
+    );
+  };
+
+  const seek = (time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+    }
+    setCurrentTime(time);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isVideoReady || event.button !== 0) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+
+    const point = toMaskPoint(event);
+    if (tool === 'brush' || tool === 'eraser') {
+      const {width} = getContentRect(videoRef.current);
+      setDraft({tool, size: brushSize / width, points: [point]});
+    } else {
+      setDraft({tool, from: point, to: point});
+    }
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!draft) return;
+    const point = toMaskPoint(event);
+    setDraft((currentDraft) => {
+      if (!currentDraft) return currentDraft;
+      return 'points' in currentDraft
+        ? {...currentDraft, points: [...currentDraft.points, point]}
+        : {...currentDraft, to: point};
+    });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    commitShapes([...shapes, draft]);
+    setDraft(null);
+  };
+
+  const handlePointerCancel = () => {
+    setDraft(null);
+  };
+
+  const undo = () => {
+    if (past.length === 0) return;
+    setFuture((currentFuture) => [keyframes, ...currentFuture]);
+    setKeyframes(past[past.length - 1]);
+    setPast(past.slice(0, -1));
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    setPast((currentPast) => [...currentPast, keyframes]);
+    setKeyframes(future[0]);
+    setFuture(future.slice(1));
+  };
+
+  const clearMask = () => {
+    if (keyframes.length > 0) {
+      commit([]);
+    }
+  };
+
+  const removeKeyframe = () => {
+    if (currentKeyframe) {
+      commit(keyframes.filter((keyframe) => keyframe !== currentKeyframe));
+    }
+  };
+
+  const setRangeStart = () =>
+    setTimeRange({
+      start: currentTime,
+      end: Math.max(timeRange?.end ?? duration, currentTime),
+    });
+
+  const setRangeEnd = () =>
+    setTimeRange({
+      start: Math.min(timeRange?.start ?? 0, currentTime),
+      end: currentTime,
+    });
+
+  const usesBrush = tool === 'brush' || tool === 'eraser';
+
+  return (
+    <div>
+      <div className="relative aspect-w-16 aspect-h-9 bg-black rounded-lg overflow-hidden shadow-inner">
+        <video
+          ref={videoRef}
+          src={videoUrl}
+          // Seed videos are served with CORS headers; asking for them keeps
+          // the frame readable when the region is exported.
+          crossOrigin="anonymous"
+          muted
+          className="w-full h-full object-contain pointer-events-none"
+          preload="auto"
+          onLoadedMetadata={(e) => {
+            setDuration(e.currentTarget.duration);
+            setIsVideoReady(true);
+          }}
+          onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          aria-hidden="true"
+        />
+        <canvas
+          ref={canvasRef}
+          className="absolute top-0 left-0 w-full h-full cursor-crosshair touch-none opacity-70"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerCancel}
+        />
+      </div>
+      <div className="mt-3">
+        <div
+          className="relative h-3"
+          role="group"
+          aria-label="Mask keyframes">
+          {timeRange && duration > 0 && (
+            <div
+              className="absolute top-1 h-1 rounded-full bg-purple-500/40"
+              style={{
+                left: `${(timeRange.start / duration) * 100}%`,
+                width: `${((timeRange.end - timeRange.start) / duration) * 100}%`,
+              }}
+            />
+          )}
+          {duration > 0 &&
+            keyframes.map((keyframe) => (
+              <button
+                key={keyframe.time}
+                onClick={() => seek(keyframe.time)}
+                className={`absolute top-0 w-3 h-3 -ml-1.5 rotate-45 rounded-sm transition-colors ${
+                  keyframe === currentKeyframe
+                    ? 'bg-white'
+                    : 'bg-purple-400 hover:bg-purple-300'
+                }`}
+                style={{left: `${(keyframe.time / duration) * 100}%`}}
+                aria-label={`Go to keyframe at ${formatTime(keyframe.time)}`}
+              />
+            ))}
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.01}
+          value={currentTime}
+          onChange={(e) => seek(Number(e.target.value))}
+          disabled={!isVideoReady}
+          className="w-full accent-purple-500"
+          aria-label="Timeline"
+        />
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+          <span className="tabular-nums">
+            {formatTime(currentTime)} / {formatTime(duration)}
+          </span>
+          <span className="flex-1">
+            {timeRange
+              ? `Edit applies ${formatTime(timeRange.start)} – ${formatTime(timeRange.end)}`
+              : 'Edit applies to the whole clip'}
+          </span>
+          <button
+            onClick={setRangeStart}
+            className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors">
+            Set start
+          </button>
+          <button
+            onClick={setRangeEnd}
+            className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors">
+            Set end
+          </button>
+          {timeRange && (
+            <button
+              onClick={() => setTimeRange(null)}
+              className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors">
+              Whole clip
+            </button>
+          )}
+          {currentKeyframe && (
+            <button
+              onClick={removeKeyframe}
+              className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors">
+              Remove keyframe
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="mt-3 flex flex-wrap items-center gap-3">
+        <div
+          className="flex rounded-lg bg-gray-700 p-1"
+          role="group"
+          aria-label="Mask tool">
+          {TOOLS.map(({tool: value, label}) => (
+            <button
+              key={value}
+              onClick={() => setTool(value)}
+              aria-pressed={tool === value}
+              className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                tool === value
+                  ? 'bg-purple-600 text-white'
+                  : 'text-gray-300 hover:bg-gray-600'
+              }`}>
+              {label}
+            </button>
+          ))}
+        </div>
+        <label
+          className={`flex items-center gap-2 text-sm text-gray-300 ${
+            usesBrush ? '' : 'opacity-50'
+          }`}>
+          Size
+          <input
+            type="range"
+            min={MIN_BRUSH_SIZE}
+            max={MAX_BRUSH_SIZE}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            disabled={!usesBrush}
+            className="w-28 accent-purple-500"
+            aria-label="Brush size"
+          />
+        </label>
+        <div className="flex items-center gap-1 ml-auto">
+          <button
+            onClick={undo}
+            disabled={past.length === 0}
+            className="p-2 rounded-full text-gray-300 hover:text-white hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label="Undo">
+            <ArrowUturnLeftIcon className="w-5 h-5" />
+          </button>
+          <button
+            onClick={redo}
+            disabled={future.length === 0}
+            className="p-2 rounded-full text-gray-300 hover:text-white hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label="Redo">
+            <ArrowUturnRightIcon className="w-5 h-5" />
+          </button>
+          <button
+            onClick={clearMask}
+            disabled={keyframes.length === 0}
+            className="p-2 rounded-full text-gray-300 hover:text-white hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+            aria-label="Clear mask">
+            <TrashIcon className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
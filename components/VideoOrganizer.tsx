@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, {useState} from 'react';
+import {normalizeTag} from '../services/libraryFilters';
+import {Collection, Video, VideoAnnotations} from '../types';
+import {StarIcon, XMarkIcon} from './icons';
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+interface VideoOrganizerProps {
+  video: Video;
+  collections: Collection[];
+  onAnnotate: (video: Video, changes: VideoAnnotations) => void;
+  onToggleCollection: (video: Video, collection: Collection) => void;
+  onCreateCollection: (video: Video, name: string) => void;
+}
+
+/**
+ * Controls for organizing a video: favorite, rating, tags and the
+ * collections it belongs to.
+ */
+export const VideoOrganizer: React.FC<VideoOrganizerProps> = ({
+  video,
+  collections,
+  onAnnotate,
+  onToggleCollection,
+  onCreateCollection,
+}) => {
+  const [tagInput, setTagInput] = useState('');
+  const [collectionName, setCollectionName] = useState('');
+  const tags = video.tags ?? [];
+
+  const addTag = () => {
+    const tag = normalizeTag(tagInput);
+    if (tag && !tags.includes(tag)) {
+      onAnnotate(video, {tags: [...tags, tag]});
+    }
+    setTagInput('');
+  };
+
+  const createCollection = () => {
+    const name = collectionName.trim();
+    if (name) {
+      onCreateCollection(video, name);
+    }
+    setCollectionName('');
+  };
+
+  return (
+    <div className="mt-4 border-t border-gray-700 pt-4 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={() => onAnnotate(video, {isFavorite: !video.isFavorite})}
+          aria-pressed={Boolean(video.isFavorite)}
+          className={`flex items-center gap-1 font-semibold transition-colors ${
+            video.isFavorite
+              ? 'text-yellow-400'
+              : 'text-gray-400 hover:text-white'
+          }`}>
+          <StarIcon className="w-5 h-5" />
+          {video.isFavorite ? 'Favorite' : 'Add to favorites'}
+        </button>
+        <div
+          className="flex items-center"
+          role="radiogroup"
+          aria-label="Rating">
+          {RATINGS.map((rating) => (
+            <button
+              key={rating}
+              onClick={() =>
+                onAnnotate(video, {
+                  rating: video.rating === rating ? undefined : rating,
+                })
+              }
+              role="radio"
+              aria-checked={video.rating === rating}
+              aria-label={`${rating} star${rating > 1 ? 's' : ''}`}
+              className={`p-0.5 transition-colors ${
+                rating <= (video.rating ?? 0)
+                  ? 'text-purple-400'
+                  : 'text-gray-600 hover:text-gray-400'
+              }`}>
+              <StarIcon className="w-4 h-4" />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {tags.map((tag) => (
+          <span
+            key={tag}
+            className="flex items-center gap-1 bg-gray-700 text-gray-200 rounded-full pl-3 pr-1 py-0.5">
+            #{tag}
+            <button
+              onClick={() =>
+                onAnnotate(video, {tags: tags.filter((t) => t !== tag)})
+              }
+              className="p-0.5 rounded-full hover:bg-gray-600"
+              aria-label={`Remove tag ${tag}`}>
+              <XMarkIcon className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addTag();
+          }}
+          onBlur={addTag}
+          placeholder="Add tag"
+          aria-label="Add a tag"
+          className="w-28 bg-gray-900 border border-gray-700 rounded-full px-3 py-0.5 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-400">Collections:</span>
+        {collections.map((collection) => {
+          const isMember = collection.videoIds.includes(video.id);
+          return (
+            <button
+              key={collection.id}
+              onClick={() => onToggleCollection(video, collection)}
+              aria-pressed={isMember}
+              className={`px-3 py-0.5 rounded-full transition-colors ${
+                isMember
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+              }`}>
+              {collection.name}
+            </button>
+          );
+        })}
+        <input
+          type="text"
+          value={collectionName}
+          onChange={(e) => setCollectionName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') createCollection();
+          }}
+          placeholder="New collection"
+          aria-label="Create a collection with this video"
+          className="w-36 bg-gray-900 border border-gray-700 rounded-full px-3 py-0.5 text-gray-200 focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+        />
+      </div>
+    </div>
+  );
+};
@@ -2,24 +2,141 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
-import {Video} from '../types';
-import {PencilSquareIcon, XMarkIcon} from './icons';
+import React, {useRef, useState} from 'react';
+import {useVideoUrl} from '../hooks/useVideoUrl';
+import {
+  captureCorsVideoFrame,
+  captureVideoFrame,
+  isCrossOriginError,
+  seekVideo,
+} from '../services/frames';
+import {
+  AspectRatio,
+  Collection,
+  ImageInput,
+  Video,
+  VideoAnnotations,
+} from '../types';
+import {
+  DocumentDuplicateIcon,
+  PencilSquareIcon,
+  TrashIcon,
+  XMarkIcon,
+} from './icons';
+import {VideoDetails, VideoDetailsForm} from './VideoDetailsForm';
+import {VideoOrganizer} from './VideoOrganizer';
+
+/**
+ * `start` generates a new clip from the frame the user paused on; `continue`
+ * seeds a continuation with the clip's last frame.
+ */
+export type FrameSeedMode = 'start' | 'continue';
+
+export interface FrameSeedRequest {
+  mode: FrameSeedMode;
+  frame: ImageInput;
+  aspectRatio: AspectRatio;
+  prompt: string;
+}
 
 interface VideoPlayerProps {
   video: Video;
   onClose: () => void;
   onEdit: (video: Video) => void;
+  onShowLineage: (video: Video) => void;
+  onGenerateFromFrame: (video: Video, request: FrameSeedRequest) => void;
+  /** The management actions are omitted for videos that can't be changed. */
+  onUpdateDetails?: (video: Video, details: VideoDetails) => void;
+  onDuplicate?: (video: Video) => void;
+  onDelete?: (video: Video) => void;
+  onSetArchived?: (video: Video, isArchived: boolean) => void;
+  /** Omitted unless the video has variations to compare it with. */
+  onCompareVariations?: (video: Video) => void;
+  onRetryCaption?: (video: Video) => void;
+  collections: Collection[];
+  onAnnotate: (video: Video, changes: VideoAnnotations) => void;
+  onToggleCollection: (video: Video, collection: Collection) => void;
+  onCreateCollection: (video: Video, name: string) => void;
 }
 
 /**
- * A component that renders a video player with controls, description, and edit button.
+ * A component that renders a video player with controls, description, and
+ * actions to edit the video or generate a new clip from one of its frames.
  */
 export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   video,
   onClose,
   onEdit,
+  onShowLineage,
+  onGenerateFromFrame,
+  onUpdateDetails,
+  onDuplicate,
+  onDelete,
+  onSetArchived,
+  onCompareVariations,
+  onRetryCaption,
+  collections,
+  onAnnotate,
+  onToggleCollection,
+  onCreateCollection,
 }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const videoUrl = useVideoUrl(video);
+  const [isEditingDetails, setIsEditingDetails] = useState(false);
+  const [seedMode, setSeedMode] = useState<FrameSeedMode | null>(null);
+  const [seedPrompt, setSeedPrompt] = useState('');
+  const [captureError, setCaptureError] = useState<string | null>(null);
+
+  const openSeedForm = (mode: FrameSeedMode) => {
+    videoRef.current?.pause();
+    setCaptureError(null);
+    setSeedMode(mode);
+  };
+
+  const saveDetails = (details: VideoDetails) => {
+    onUpdateDetails(video, details);
+    setIsEditingDetails(false);
+  };
+
+  const handleGenerateFromFrame = async () => {
+    const videoElement = videoRef.current;
+    if (!videoElement || !seedMode) return;
+
+    try {
+      videoElement.pause();
+      if (seedMode === 'continue') {
+        // Step back slightly, the very end of a clip may not decode a frame.
+        const lastFrameTime = Math.max(videoElement.duration - 0.05, 0);
+        await seekVideo(videoElement, lastFrameTime);
+      }
+      const time = videoElement.currentTime;
+      const frame = await captureVideoFrame(videoElement).catch((error) => {
+        if (!isCrossOriginError(error)) throw error;
+        // The player loads without CORS so any host plays; a copy asked for
+        // with CORS can still be read if the video's server allows it.
+        return captureCorsVideoFrame(videoUrl, time).catch((corsError) => {
+          console.warn('Failed to read a CORS copy of the video:', corsError);
+          throw error;
+        });
+      });
+      onGenerateFromFrame(video, {
+        mode: seedMode,
+        frame,
+        aspectRatio:
+          videoElement.videoWidth >= videoElement.videoHeight ? '16:9' : '9:16',
+        prompt: seedPrompt.trim(),
+      });
+    } catch (error) {
+      console.error('Failed to capture frame:', error);
+      setCaptureError(
+        isCrossOriginError(error)
+          ? "This video's frames can't be captured, as its server doesn't " +
+              'allow other sites to read them. Try a video from your library.'
+          : "This video's frame couldn't be read. Please try again.",
+      );
+    }
+  };
+
   return (
     <div
       className="fixed inset-0 bg-black/90 z-50 flex items-center justify-center animate-fade-in"
@@ -39,8 +156,10 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
           <div className="aspect-w-16 aspect-h-9 bg-black rounded-md overflow-hidden">
             <video
               key={video.id}
+              ref={videoRef}
               className="w-full h-full"
-              src={video.videoUrl}
+              src={videoUrl}
+              poster={video.poster}
               controls
               autoPlay
               loop
@@ -50,17 +169,156 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
         </div>
         <div className="flex-1 p-4 pt-2 overflow-y-auto">
           <div className="flex justify-between items-start gap-4">
-            <p className="text-sm text-gray-400 mt-0 whitespace-pre-wrap flex-1">
-              {video.description}
-            </p>
-            <button
-              onClick={() => onEdit(video)}
-              className="flex-shrink-0 flex items-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm"
-              aria-label="Edit video details">
-              <PencilSquareIcon className="w-5 h-5" />
-              <span className="hidden sm:inline">Edit</span>
-            </button>
+            <div className="flex-1">
+              {isEditingDetails ? (
+                <VideoDetailsForm
+                  key={video.id}
+                  video={video}
+                  onSave={saveDetails}
+                  onCancel={() => setIsEditingDetails(false)}
+                />
+              ) : (
+                <>
+                  <h2 className="text-lg font-semibold text-gray-100 mb-1">
+                    {video.title}
+                  </h2>
+                  <p className="text-sm text-gray-400 mt-0 whitespace-pre-wrap">
+                    {video.description}
+                  </p>
+                  {video.captionStatus === 'pending' && (
+                    <p className="text-sm text-purple-300 mt-2 animate-pulse">
+                      Writing a description of this video...
+                    </p>
+                  )}
+                  {video.captionStatus === 'failed' && (
+                    <p className="text-sm text-red-400 mt-2">
+                      This video couldn't be described automatically.{' '}
+                      {onRetryCaption && (
+                        <button
+                          onClick={() => onRetryCaption(video)}
+                          className="underline hover:text-red-300">
+                          Try again
+                        </button>
+                      )}
+                    </p>
+                  )}
+                  {onUpdateDetails && (
+                    <button
+                      onClick={() => setIsEditingDetails(true)}
+                      className="text-sm text-purple-400 hover:text-purple-300 mt-2">
+                      Rename or edit description
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+            <div className="flex-shrink-0 flex flex-col sm:flex-row sm:flex-wrap sm:justify-end gap-2">
+              {onCompareVariations && (
+                <button
+                  onClick={() => onCompareVariations(video)}
+                  className="flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm"
+                  aria-label="Compare this video with the other variations">
+                  Compare takes
+                </button>
+              )}
+              {onSetArchived && (
+                <button
+                  onClick={() => onSetArchived(video, !video.isArchived)}
+                  className="flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm">
+                  {video.isArchived ? 'Unarchive' : 'Archive'}
+                </button>
+              )}
+              {onDuplicate && (
+                <button
+                  onClick={() => onDuplicate(video)}
+                  className="flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm"
+                  aria-label="Duplicate this video"
+                  title="Duplicate">
+                  <DocumentDuplicateIcon className="w-5 h-5" />
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  onClick={() => onDelete(video)}
+                  className="flex items-center justify-center gap-2 bg-gray-700 hover:bg-red-600 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm"
+                  aria-label="Delete this video"
+                  title="Delete">
+                  <TrashIcon className="w-5 h-5" />
+                </button>
+              )}
+              <button
+                onClick={() => onShowLineage(video)}
+                className="flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm"
+                aria-label="Show the remix lineage of this video">
+                Lineage
+              </button>
+              <button
+                onClick={() => openSeedForm('start')}
+                className="flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm"
+                aria-label="Generate a new clip starting from the current frame">
+                From this frame
+              </button>
+              <button
+                onClick={() => openSeedForm('continue')}
+                className="flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm"
+                aria-label="Continue this clip from its last frame">
+                Continue clip
+              </button>
+              <button
+                onClick={() => onEdit(video)}
+                className="flex items-center justify-center gap-2 bg-purple-600 hover:bg-purple-700 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm"
+                aria-label="Edit video details">
+                <PencilSquareIcon className="w-5 h-5" />
+                <span className="hidden sm:inline">Edit</span>
+              </button>
+            </div>
           </div>
+          <VideoOrganizer
+            video={video}
+            collections={collections}
+            onAnnotate={onAnnotate}
+            onToggleCollection={onToggleCollection}
+            onCreateCollection={onCreateCollection}
+          />
+          {seedMode && (
+            <div className="mt-4 border-t border-gray-700 pt-4">
+              <label
+                htmlFor="seed-prompt"
+                className="block text-sm font-medium text-gray-300 mb-2">
+                {seedMode === 'start'
+                  ? 'What happens from this frame on?'
+                  : 'What happens next?'}
+              </label>
+              <textarea
+                id="seed-prompt"
+                rows={2}
+                className="w-full bg-gray-900 border border-gray-700 rounded-lg p-3 text-gray-200 text-sm focus:ring-2 focus:ring-purple-500 focus:border-purple-500 transition-shadow duration-200"
+                value={seedPrompt}
+                onChange={(e) => setSeedPrompt(e.target.value)}
+                placeholder={
+                  seedMode === 'start'
+                    ? 'Pause on a frame, then describe the new shot'
+                    : 'e.g., the robot finally hands over the coffee'
+                }
+              />
+              {captureError && (
+                <p className="text-sm text-red-400 mt-2">{captureError}</p>
+              )}
+              <div className="mt-3 flex justify-end gap-2">
+                <button
+                  onClick={() => setSeedMode(null)}
+                  className="px-4 py-2 rounded-lg bg-gray-600 hover:bg-gray-700 text-white font-semibold transition-colors text-sm">
+                  Cancel
+                </button>
+                <button
+                  onClick={handleGenerateFromFrame}
+                  disabled={seedPrompt.trim() === ''}
+                  className="px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-semibold transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed">
+                  Generate
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -2,7 +2,24 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import {Video} from './types';
+import {GenerationDuration, Video} from './types';
+
+/** Clip length, in seconds, requested for each duration setting. */
+export const DURATION_SECONDS: Record<GenerationDuration, number> = {
+  short: 4,
+  medium: 6,
+  long: 8,
+};
+
+/** Styles a prompt can be rewritten in, taken from the gallery's videos. */
+export const PROMPT_STYLES = [
+  'Cinematic',
+  'Fluffy Characters Stop Motion',
+  'Claymation (Stop Motion)',
+  'Nature documentary',
+  'Cyberpunk action',
+  'Illustrated postcard',
+];
 
 /** Base URL for static files. */
 const staticFilesUrl =
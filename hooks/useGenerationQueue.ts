@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useCallback, useEffect, useRef, useState} from 'react';
+import {GenerationJob, GenerationRequest} from '../types';
+
+/** How many generations may talk to the model at the same time. */
+const MAX_CONCURRENT_JOBS = 2;
+
+/** Updates a job's fields; used by the runner to report progress. */
+export type JobUpdater = (patch: Partial<GenerationJob>) => void;
+
+/**
+ * Runs one job to completion. The runner is responsible for moving the job
+ * to `done`, `failed` or, once `signal` is aborted, `cancelled` through
+ * `update`.
+ */
+export type JobRunner = (
+  job: GenerationJob,
+  update: JobUpdater,
+  signal: AbortSignal,
+) => Promise<void>;
+
+export interface GenerationQueueOptions {
+  /** How many jobs may run at the same time. */
+  concurrency?: number;
+  /**
+   * Called when a job is cancelled before it started, so its runner never
+   * gets to clean up after it, e.g. a restored job's saved operation.
+   */
+  onCancelQueued?: (id: string) => void;
+}
+
+const isActive = (job: GenerationJob) =>
+  job.status === 'polling' || job.status === 'downloading';
+
+/** Whether a job has stopped for good, successfully or not. */
+export const isJobFinished = (job: GenerationJob) =>
+  job.status === 'done' ||
+  job.status === 'failed' ||
+  job.status === 'cancelled';
+
+/**
+ * Holds generation jobs and starts queued ones in order as long as fewer than
+ * `concurrency` jobs are running.
+ */
+export function useGenerationQueue(
+  runJob: JobRunner,
+  {
+    concurrency = MAX_CONCURRENT_JOBS,
+    onCancelQueued,
+  }: GenerationQueueOptions = {},
+) {
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const startedJobIds = useRef(new Set<string>());
+  const abortControllers = useRef(new Map<string, AbortController>());
+  // The runner closes over App state, so always call the latest one.
+  const runJobRef = useRef(runJob);
+  runJobRef.current = runJob;
+  const onCancelQueuedRef = useRef(onCancelQueued);
+  onCancelQueuedRef.current = onCancelQueued;
+
+  const updateJob = useCallback(
+    (id: string, patch: Partial<GenerationJob>) =>
+      setJobs((currentJobs) =>
+        currentJobs.map((job) => (job.id === id ? {...job, ...patch} : job)),
+      ),
+    [],
+  );
+
+  useEffect(() => {
+    const freeSlots = concurrency - jobs.filter(isActive).length;
+    const jobsToStart = jobs
+      .filter(
+        (job) => job.status === 'queued' && !startedJobIds.current.has(job.id),
+      )
+      .slice(0, Math.max(freeSlots, 0));
+
+    for (const job of jobsToStart) {
+      startedJobIds.current.add(job.id);
+      const controller = new AbortController();
+      abortControllers.current.set(job.id, controller);
+      updateJob(job.id, {status: 'polling'});
+      const update: JobUpdater = (patch) => updateJob(job.id, patch);
+      runJobRef
+        .current(job, update, controller.signal)
+        .catch((error) => {
+          console.error('Generation job failed unexpectedly:', error);
+          update({
+            status: 'failed',
+            error: {
+              title: 'Generation Failed',
+              messages: ['Something went wrong. Please try again.'],
+              type: 'unknown',
+            },
+          });
+        })
+        .finally(() => abortControllers.current.delete(job.id));
+    }
+  }, [jobs, concurrency, updateJob]);
+
+  useEffect(() => {
+    // Queue waiting jobs once their retry time has come.
+    const retryTimes = jobs
+      .filter((job) => job.status === 'waiting')
+      .map((job) => job.retryAt ?? 0);
+    if (retryTimes.length === 0) return;
+    const timer = setTimeout(
+      () => {
+        const now = Date.now();
+        setJobs((currentJobs) =>
+          currentJobs.map((job) =>
+            job.status === 'waiting' && (job.retryAt ?? 0) <= now
+              ? {...job, status: 'queued'}
+              : job,
+          ),
+        );
+      },
+      Math.max(Math.min(...retryTimes) - Date.now(), 0),
+    );
+    return () => clearTimeout(timer);
+  }, [jobs]);
+
+  /**
+   * Adds a job to the end of the queue. `restored` carries the id and
+   * operation of a job persisted before a reload, so it resumes polling.
+   * A job given a `retryAt` waits until then before it is queued.
+   */
+  const enqueue = useCallback(
+    (request: GenerationRequest, restored?: Partial<GenerationJob>) => {
+      const job: GenerationJob = {
+        ...request,
+        id: self.crypto.randomUUID(),
+        videoIds: [],
+        ...restored,
+        status: restored?.retryAt ? 'waiting' : 'queued',
+      };
+      setJobs((currentJobs) =>
+        currentJobs.some((j) => j.id === job.id)
+          ? currentJobs
+          : [...currentJobs, job],
+      );
+      return job;
+    },
+    [],
+  );
+
+  /**
+   * Cancels a job. Waiting and queued jobs are never started; running jobs
+   * are aborted and moved to `cancelled` by their runner.
+   */
+  const cancel = useCallback(
+    (id: string) => {
+      const controller = abortControllers.current.get(id);
+      if (controller) {
+        controller.abort();
+      } else {
+        startedJobIds.current.add(id);
+        updateJob(id, {status: 'cancelled'});
+        onCancelQueuedRef.current?.(id);
+      }
+    },
+    [updateJob],
+  );
+
+  const dismiss = useCallback((id: string) => {
+    setJobs((currentJobs) => currentJobs.filter((job) => job.id !== id));
+  }, []);
+
+  return {jobs, enqueue, cancel, dismiss};
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {useEffect, useState} from 'react';
+import {acquireMediaUrl, releaseMediaUrl} from '../services/mediaStore';
+import {Video} from '../types';
+
+/**
+ * Returns a playable URL for each video, keyed by video id, while the
+ * component is mounted. Stored videos get an object URL from the media store
+ * that is released on unmount; seed videos keep their own URL.
+ */
+export function useVideoUrls(videos: Video[]): Record<string, string> {
+  const idsKey = videos.map((video) => video.id).join('\n');
+  const [mediaUrls, setMediaUrls] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    const ids = idsKey ? idsKey.split('\n') : [];
+    const acquiredUrls: Record<string, string> = {};
+    for (const id of ids) {
+      const url = acquireMediaUrl(id);
+      if (url) {
+        acquiredUrls[id] = url;
+      }
+    }
+    setMediaUrls(acquiredUrls);
+    return () => {
+      Object.values(acquiredUrls).forEach(releaseMediaUrl);
+    };
+  }, [idsKey]);
+
+  const urls: Record<string, string> = {};
+  for (const video of videos) {
+    urls[video.id] = mediaUrls[video.id] ?? video.videoUrl;
+  }
+  return urls;
+}
+
+/** Returns a playable URL for a video while the component is mounted. */
+export function useVideoUrl(video: Video): string | undefined {
+  return useVideoUrls([video])[video.id];
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Server} from 'node:http';
+import {AddressInfo} from 'node:net';
+import path from 'node:path';
+import {createProxyServer} from './proxyServer';
+import {createStubUpstream} from './stubUpstream';
+
+/** The port the proxy listens on unless `PROXY_PORT` says otherwise. */
+const DEFAULT_PROXY_PORT = 8787;
+
+/** Only this machine may use the key the proxy holds. */
+const HOST = '127.0.0.1';
+
+function listen(server: Server, port: number) {
+  return new Promise<number>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, HOST, () =>
+      resolve((server.address() as AddressInfo).port),
+    );
+  });
+}
+
+/**
+ * Starts the proxy server. With `--stub`, it calls a stub of the Gemini API
+ * started alongside it instead of the real one, so no key is needed.
+ */
+async function main() {
+  try {
+    process.loadEnvFile('.env.local');
+  } catch {
+    // The settings may all come from the environment instead.
+  }
+  const port = Number(process.env.PROXY_PORT) || DEFAULT_PROXY_PORT;
+  const libraryDir = path.resolve(process.env.LIBRARY_DIR || 'library');
+  let apiKey = process.env.GEMINI_API_KEY;
+  let upstreamUrl = process.env.GEMINI_UPSTREAM_URL || undefined;
+
+  if (process.argv.includes('--stub')) {
+    const stubPort = await listen(createStubUpstream(), 0);
+    upstreamUrl = `http://${HOST}:${stubPort}`;
+    apiKey = 'stub-key';
+    console.log(`Stub Gemini API listening on ${upstreamUrl}`);
+  }
+  if (!apiKey) {
+    throw new Error('Set GEMINI_API_KEY in .env.local or the environment');
+  }
+
+  await listen(createProxyServer({apiKey, upstreamUrl, libraryDir}), port);
+  console.log(`Proxy listening on http://${HOST}:${port}`);
+  console.log(`Saving generated videos to ${libraryDir}`);
+}
+
+main().catch((error) => {
+  console.error('Failed to start the proxy:', error);
+  process.exit(1);
+});
@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {request, Server} from 'node:http';
+import {mkdtemp, readdir, rm} from 'node:fs/promises';
+import {AddressInfo} from 'node:net';
+import {tmpdir} from 'node:os';
+import path from 'node:path';
+import {afterAll, beforeAll, describe, expect, it, vi} from 'vitest';
+import {createProxyServer} from './proxyServer';
+import {createStubUpstream} from './stubUpstream';
+
+interface TestRequest {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string | Buffer;
+}
+
+interface TestResponse {
+  status: number;
+  body: string;
+}
+
+const GENERATION_REQUEST = {
+  prompt: 'A lighthouse at dusk',
+  title: 'Lighthouse',
+  description: 'A lighthouse at dusk',
+  numberOfVideos: 1,
+  aspectRatio: '16:9',
+};
+
+const JSON_HEADERS = {'Content-Type': 'application/json'};
+
+function listen(server: Server) {
+  return new Promise<number>((resolve) =>
+    server.listen(0, '127.0.0.1', () =>
+      resolve((server.address() as AddressInfo).port),
+    ),
+  );
+}
+
+function close(server: Server) {
+  return new Promise((resolve) => server.close(resolve));
+}
+
+describe('proxy server', () => {
+  let upstream: Server;
+  let proxy: Server;
+  let port: number;
+  let libraryDir: string;
+
+  /** Sends a request with exactly the given headers, unlike fetch. */
+  const send = (route: string, {method, headers, body}: TestRequest = {}) =>
+    new Promise<TestResponse>((resolve, reject) => {
+      const req = request(
+        {
+          host: '127.0.0.1',
+          port,
+          path: `/api${route}`,
+          method: method ?? (body === undefined ? 'GET' : 'POST'),
+          headers: {Host: `localhost:${port}`, ...headers},
+        },
+        (res) => {
+          let text = '';
+          res.on('data', (chunk) => (text += chunk));
+          res.on('end', () => resolve({status: res.statusCode, body: text}));
+        },
+      );
+      req.on('error', reject);
+      req.end(body);
+    });
+
+  beforeAll(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    libraryDir = await mkdtemp(path.join(tmpdir(), 'proxy-test-'));
+    upstream = createStubUpstream({delayMs: 0});
+    const upstreamPort = await listen(upstream);
+    proxy = createProxyServer({
+      apiKey: 'test-key',
+      upstreamUrl: `http://127.0.0.1:${upstreamPort}`,
+      libraryDir,
+    });
+    port = await listen(proxy);
+  });
+
+  afterAll(async () => {
+    await Promise.all([close(proxy), close(upstream)]);
+    await rm(libraryDir, {recursive: true, force: true});
+    vi.restoreAllMocks();
+  });
+
+  it('starts generations through the upstream', async () => {
+    const res = await send('/operations', {
+      headers: JSON_HEADERS,
+      body: JSON.stringify(GENERATION_REQUEST),
+    });
+    expect(res.status).toBe(200);
+    expect(JSON.parse(res.body).name).toMatch(/operations\//);
+  });
+
+  it('accepts requests from the app on this machine', async () => {
+    const res = await send('/operations', {
+      headers: {...JSON_HEADERS, Origin: 'http://127.0.0.1:3000'},
+      body: JSON.stringify(GENERATION_REQUEST),
+    });
+    expect(res.status).toBe(200);
+  });
+
+  it('rejects requests for other hosts', async () => {
+    const res = await send('/operations?name=x', {
+      headers: {Host: 'attacker.example'},
+    });
+    expect(res.status).toBe(403);
+  });
+
+  it('rejects requests from other origins', async () => {
+    for (const origin of ['https://attacker.example', 'null']) {
+      const res = await send('/operations', {
+        headers: {...JSON_HEADERS, Origin: origin},
+        body: JSON.stringify(GENERATION_REQUEST),
+      });
+      expect(res.status).toBe(403);
+    }
+  });
+
+  it('rejects bodies that are not JSON', async () => {
+    const res = await send('/operations', {
+      headers: {'Content-Type': 'text/plain'},
+      body: JSON.stringify(GENERATION_REQUEST),
+    });
+    expect(res.status).toBe(415);
+  });
+
+  it('rejects bodies of the wrong shape', async () => {
+    for (const body of ['null', '{}', '{"prompt": 1}', 'not json']) {
+      const res = await send('/operations', {headers: JSON_HEADERS, body});
+      expect(res.status).toBe(400);
+      expect(JSON.parse(res.body).error.type).toBe('invalid_request');
+    }
+  });
+
+  it('rejects bodies that are too large', async () => {
+    const res = await send('/prompts/enhance', {
+      headers: JSON_HEADERS,
+      body: Buffer.alloc(21 * 1024 * 1024, ' '),
+    });
+    expect(res.status).toBe(413);
+  });
+
+  it('keeps video files inside the library', async () => {
+    for (const id of ['..%2F..%2Fescaped', '..%5Cescaped', 'a.b']) {
+      const res = await send(`/library/videos/${id}`, {
+        method: 'PUT',
+        headers: {'Content-Type': 'video/mp4'},
+        body: 'video',
+      });
+      expect(res.status).toBe(400);
+    }
+    expect(await readdir(libraryDir)).toEqual([]);
+  });
+
+  it('stores videos under their id', async () => {
+    const res = await send('/library/videos/abc-123', {
+      method: 'PUT',
+      headers: {'Content-Type': 'video/mp4'},
+      body: 'video',
+    });
+    expect(res.status).toBe(204);
+    expect(await readdir(path.join(libraryDir, 'videos'))).toEqual([
+      'abc-123.mp4',
+    ]);
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {randomUUID} from 'node:crypto';
+import {createServer, IncomingMessage, ServerResponse} from 'node:http';
+import {mkdir, rename, rm, stat, writeFile} from 'node:fs/promises';
+import path from 'node:path';
+import {createGeminiProvider} from '../services/geminiProvider';
+import {EmbeddingPurpose} from '../services/generationProvider';
+import {
+  PROXY_ROUTES,
+  ProxyError,
+  toProxyError,
+  toProxyOperation,
+} from '../services/proxyProvider';
+import {ErrorType, GenerationRequest, Video} from '../types';
+
+/** The Gemini API, unless a stub is put in its place. */
+export const GEMINI_API_URL = 'https://generativelanguage.googleapis.com';
+
+export interface ProxyServerOptions {
+  /** The key every call to the Gemini API is made with. */
+  apiKey: string;
+  /** Where the Gemini API is reached, e.g. a stub of it. */
+  upstreamUrl?: string;
+  /** Where generated videos and the library manifest are written. */
+  libraryDir: string;
+  /** The path the app's calls arrive under. */
+  basePath?: string;
+}
+
+interface EnhancePromptBody {
+  prompt: string;
+  style?: string;
+}
+
+interface EmbeddingsBody {
+  texts: string[];
+  purpose: EmbeddingPurpose;
+}
+
+interface ManifestBody {
+  videos: Video[];
+}
+
+/** JSON bodies carry at most a start image, so can be kept small. */
+const MAX_JSON_BYTES = 20 * 1024 * 1024;
+/** Generated clips are a few MB; uploads to caption may be larger. */
+const MAX_VIDEO_BYTES = 200 * 1024 * 1024;
+
+/** The status a failure is answered with; its body says what it was. */
+const ERROR_STATUS: Record<ErrorType, number> = {
+  api_key: 401,
+  quota: 429,
+  invalid_request: 400,
+  safety_filtered: 422,
+  generation_failed: 422,
+  server: 502,
+  network: 502,
+  offline: 502,
+  timeout: 504,
+  cancelled: 499,
+  unknown: 500,
+};
+
+/**
+ * The only hosts the app may reach the proxy under. Checking the Host header
+ * keeps other sites from reaching it through DNS rebinding, and checking the
+ * Origin keeps them from sending it requests from the user's browser.
+ */
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1', '[::1]'];
+
+/** Video ids are UUIDs; anything else could point outside the library. */
+const VIDEO_ID_PATTERN = /^[\w-]+$/;
+
+/** A failure in the request itself rather than in the Gemini API. */
+class BadRequestError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isGenerationRequest(body: unknown): body is GenerationRequest {
+  return (
+    isObject(body) &&
+    isString(body.prompt) &&
+    Number.isInteger(body.numberOfVideos) &&
+    isString(body.aspectRatio)
+  );
+}
+
+function isEnhancePromptBody(body: unknown): body is EnhancePromptBody {
+  return (
+    isObject(body) &&
+    isString(body.prompt) &&
+    (body.style === undefined || isString(body.style))
+  );
+}
+
+function isEmbeddingsBody(body: unknown): body is EmbeddingsBody {
+  return (
+    isObject(body) &&
+    Array.isArray(body.texts) &&
+    body.texts.every(isString) &&
+    (body.purpose === 'document' || body.purpose === 'query')
+  );
+}
+
+function isManifestBody(body: unknown): body is ManifestBody {
+  return (
+    isObject(body) &&
+    Array.isArray(body.videos) &&
+    body.videos.every((video) => isObject(video) && isString(video.id))
+  );
+}
+
+async function readBody(req: IncomingMessage, maxBytes: number) {
+  const tooLarge = new BadRequestError(413, 'The request body is too large');
+  if (Number(req.headers['content-length']) > maxBytes) {
+    throw tooLarge;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw tooLarge;
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function hasLocalHostname(url: string) {
+  try {
+    return LOCAL_HOSTNAMES.includes(new URL(url).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/** Turns away requests that didn't come from the app on this machine. */
+function checkRequestSource(req: IncomingMessage) {
+  const {host, origin} = req.headers;
+  if (!host || !hasLocalHostname(`http://${host}`)) {
+    throw new BadRequestError(403, `Unexpected host: ${host}`);
+  }
+  if (origin !== undefined && !hasLocalHostname(origin)) {
+    throw new BadRequestError(403, `Unexpected origin: ${origin}`);
+  }
+}
+
+/** Reads a JSON body, answering 400 unless `isValid` accepts it. */
+async function readJson<T>(
+  req: IncomingMessage,
+  isValid: (body: unknown) => body is T,
+): Promise<T> {
+  // Browsers only send JSON across origins after asking first, which the
+  // proxy never allows, so other sites can't post bodies as plain text.
+  if (!req.headers['content-type']?.startsWith('application/json')) {
+    throw new BadRequestError(415, 'Send the request body as JSON');
+  }
+  const text = (await readBody(req, MAX_JSON_BYTES)).toString('utf8');
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new BadRequestError(400, 'The request body is not valid JSON');
+  }
+  if (!isValid(body)) {
+    throw new BadRequestError(400, 'The request body is missing fields');
+  }
+  return body;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {'Content-Type': 'application/json'});
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: unknown) {
+  const body: ProxyError =
+    error instanceof BadRequestError
+      ? {type: 'invalid_request', message: error.message}
+      : toProxyError(error);
+  const status =
+    error instanceof BadRequestError ? error.status : ERROR_STATUS[body.type];
+  sendJson(res, status, {error: body});
+}
+
+/** Writes a file in one step, so readers never see half of it. */
+async function writeFileAtomically(filePath: string, data: Buffer | string) {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, data);
+  await rename(tempPath, filePath);
+}
+
+async function fileExists(filePath: string) {
+  try {
+    return (await stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates the proxy server: it makes the app's calls to the Gemini API with
+ * a key the browser never sees, and keeps generated videos and a manifest of
+ * the library in `libraryDir`, as `videos/<id>.mp4` and `manifest.json`.
+ */
+export function createProxyServer({
+  apiKey,
+  upstreamUrl = GEMINI_API_URL,
+  libraryDir,
+  basePath = '/api',
+}: ProxyServerOptions) {
+  const gemini = createGeminiProvider({apiKey, baseUrl: upstreamUrl});
+  const upstreamOrigin = new URL(upstreamUrl).origin;
+  const videosDir = path.join(libraryDir, 'videos');
+
+  const getVideoPath = (id: string) => {
+    if (!VIDEO_ID_PATTERN.test(id)) {
+      throw new BadRequestError(400, `Invalid video id: ${id}`);
+    }
+    return path.join(videosDir, `${id}.mp4`);
+  };
+
+  const handle = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    signal: AbortSignal,
+  ) => {
+    checkRequestSource(req);
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (!url.pathname.startsWith(`${basePath}/`)) {
+      throw new BadRequestError(404, `Not found: ${url.pathname}`);
+    }
+    const route = url.pathname.slice(basePath.length);
+    const videoId = route.startsWith(`${PROXY_ROUTES.libraryVideos}/`)
+      ? decodeURIComponent(route.slice(PROXY_ROUTES.libraryVideos.length + 1))
+      : null;
+
+    if (req.method === 'POST' && route === PROXY_ROUTES.operations) {
+      const request = await readJson(req, isGenerationRequest);
+      const operation = await gemini.start(request, signal);
+      sendJson(res, 200, toProxyOperation(operation));
+    } else if (req.method === 'GET' && route === PROXY_ROUTES.operations) {
+      const name = url.searchParams.get('name');
+      if (!name) throw new BadRequestError(400, 'No operation name given');
+      const operation = await gemini.poll(name, signal);
+      sendJson(res, 200, toProxyOperation(operation));
+    } else if (req.method === 'GET' && route === PROXY_ROUTES.download) {
+      const uri = url.searchParams.get('uri') ?? '';
+      // The key is added to the URI, so only the Gemini API may get it.
+      if (!uri.startsWith(`${upstreamOrigin}/`)) {
+        throw new BadRequestError(400, `Not a Gemini API video: ${uri}`);
+      }
+      const video = await gemini.download(uri, signal);
+      res.writeHead(200, {'Content-Type': video.type || 'video/mp4'});
+      res.end(Buffer.from(await video.arrayBuffer()));
+    } else if (req.method === 'POST' && route === PROXY_ROUTES.enhancePrompt) {
+      const {prompt, style} = await readJson(req, isEnhancePromptBody);
+      const text = await gemini.enhancePrompt(prompt, style, signal);
+      sendJson(res, 200, {text});
+    } else if (req.method === 'POST' && route === PROXY_ROUTES.describeVideo) {
+      const video = new Blob([await readBody(req, MAX_VIDEO_BYTES)], {
+        type: req.headers['content-type'] ?? 'video/mp4',
+      });
+      const text = await gemini.describeVideo(video, signal);
+      sendJson(res, 200, {text});
+    } else if (req.method === 'POST' && route === PROXY_ROUTES.embeddings) {
+      const {texts, purpose} = await readJson(req, isEmbeddingsBody);
+      const embeddings = await gemini.embedTexts(texts, purpose, signal);
+      sendJson(res, 200, {embeddings});
+    } else if (req.method === 'PUT' && videoId !== null) {
+      const filePath = getVideoPath(videoId);
+      await mkdir(videosDir, {recursive: true});
+      const video = await readBody(req, MAX_VIDEO_BYTES);
+      await writeFileAtomically(filePath, video);
+      res.writeHead(204).end();
+    } else if (req.method === 'DELETE' && videoId !== null) {
+      await rm(getVideoPath(videoId), {force: true});
+      res.writeHead(204).end();
+    } else if (req.method === 'PUT' && route === PROXY_ROUTES.manifest) {
+      const {videos} = await readJson(req, isManifestBody);
+      // Point each video at its file, for those generated in proxy mode.
+      const entries = await Promise.all(
+        videos.map(async (video) => {
+          const file = `videos/${video.id}.mp4`;
+          const hasFile =
+            VIDEO_ID_PATTERN.test(video.id) &&
+            (await fileExists(path.join(libraryDir, file)));
+          return hasFile ? {...video, file} : video;
+        }),
+      );
+      await mkdir(libraryDir, {recursive: true});
+      await writeFileAtomically(
+        path.join(libraryDir, 'manifest.json'),
+        JSON.stringify({updatedAt: Date.now(), videos: entries}, null, 2),
+      );
+      res.writeHead(204).end();
+    } else {
+      throw new BadRequestError(404, `Not found: ${req.method} ${route}`);
+    }
+  };
+
+  return createServer((req, res) => {
+    // Stop waiting on the Gemini API once the app has gone away.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    handle(req, res, controller.signal).catch((error) => {
+      if (controller.signal.aborted) return;
+      if (!(error instanceof BadRequestError)) {
+        console.error(`${req.method} ${req.url} failed:`, error);
+      }
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        sendError(res, error);
+      }
+    });
+  });
+}
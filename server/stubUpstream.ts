@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {randomUUID} from 'node:crypto';
+import {createServer, IncomingMessage, ServerResponse} from 'node:http';
+
+export interface StubUpstreamOptions {
+  /** How long each video operation takes to finish. */
+  delayMs?: number;
+}
+
+/** Prompts containing this fail, as in the mock provider. */
+const FAIL_KEYWORD = '#fail';
+
+/** Prompts containing this lose half their videos to the safety filters. */
+const FILTER_KEYWORD = '#filter';
+
+const STUB_FILTER_REASON =
+  'The stub could not generate some videos because the prompt contains #filter. Support codes: 00000000';
+
+const STUB_EMBEDDING_SIZE = 8;
+
+interface StubOperation {
+  doneAt: number;
+  numberOfVideos: number;
+  filteredCount: number;
+  fails: boolean;
+}
+
+interface PredictLongRunningBody {
+  instances?: {prompt?: string}[];
+  parameters?: {sampleCount?: number};
+}
+
+async function readJson(req: IncomingMessage) {
+  let body = '';
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return body ? JSON.parse(body) : {};
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, {'Content-Type': 'application/json'});
+  res.end(JSON.stringify(body));
+}
+
+/** Answers like the Gemini API does when a call fails. */
+function sendApiError(
+  res: ServerResponse,
+  code: number,
+  status: string,
+  message: string,
+) {
+  sendJson(res, code, {error: {code, message, status}});
+}
+
+/**
+ * Creates a stand-in for the parts of the Gemini API the proxy server calls:
+ * video operations and their downloads, text generation and embeddings. It
+ * accepts any key but a missing one, so the proxy can be tried and checked
+ * without a real key or network access. Downloads are placeholder bytes,
+ * not playable videos, and uploads for captioning are not supported.
+ */
+export function createStubUpstream({
+  delayMs = 5000,
+}: StubUpstreamOptions = {}) {
+  const operations = new Map<string, StubOperation>();
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+    const apiKey =
+      req.headers['x-goog-api-key'] ?? url.searchParams.get('key');
+    if (!apiKey) {
+      sendApiError(res, 401, 'UNAUTHENTICATED', 'API key not valid.');
+      return;
+    }
+
+    const path = url.pathname.replace(/^\/v1beta\//, '');
+    let match: RegExpMatchArray | null;
+
+    if ((match = path.match(/^models\/([^/:]+):predictLongRunning$/))) {
+      const body: PredictLongRunningBody = await readJson(req);
+      const {instances, parameters} = body;
+      const prompt = instances?.[0]?.prompt ?? '';
+      const numberOfVideos = parameters?.sampleCount ?? 1;
+      const name = `models/${match[1]}/operations/${randomUUID()}`;
+      operations.set(name, {
+        doneAt: Date.now() + delayMs,
+        numberOfVideos,
+        filteredCount: prompt.includes(FILTER_KEYWORD)
+          ? Math.ceil(numberOfVideos / 2)
+          : 0,
+        fails: prompt.includes(FAIL_KEYWORD),
+      });
+      sendJson(res, 200, {name});
+    } else if (path.match(/^models\/[^/:]+\/operations\/[^/]+$/)) {
+      const operation = operations.get(path);
+      if (!operation) {
+        sendApiError(res, 404, 'NOT_FOUND', `Operation ${path} not found.`);
+      } else if (Date.now() < operation.doneAt) {
+        sendJson(res, 200, {name: path, done: false});
+      } else if (operation.fails) {
+        sendJson(res, 200, {
+          name: path,
+          done: true,
+          error: {code: 13, message: 'The stub failed on purpose.'},
+        });
+      } else {
+        const {numberOfVideos, filteredCount} = operation;
+        const id = path.split('/').pop();
+        sendJson(res, 200, {
+          name: path,
+          done: true,
+          response: {
+            generateVideoResponse: {
+              generatedSamples: Array.from(
+                {length: numberOfVideos - filteredCount},
+                (_, index) => ({
+                  video: {
+                    uri: `${url.origin}/v1beta/files/${id}-${index}:download?alt=media`,
+                  },
+                }),
+              ),
+              raiMediaFilteredCount: filteredCount || undefined,
+              raiMediaFilteredReasons: filteredCount
+                ? [STUB_FILTER_REASON]
+                : undefined,
+            },
+          },
+        });
+      }
+    } else if ((match = path.match(/^files\/([^/:]+):download$/))) {
+      res.writeHead(200, {'Content-Type': 'video/mp4'});
+      res.end(`Stub video ${match[1]}`);
+    } else if ((match = path.match(/^models\/([^/:]+)$/))) {
+      sendJson(res, 200, {name: `models/${match[1]}`});
+    } else if (path.match(/^models\/[^/:]+:generateContent$/)) {
+      await readJson(req);
+      sendJson(res, 200, {
+        candidates: [
+          {
+            content: {
+              role: 'model',
+              parts: [{text: 'A stub prompt. The camera holds still.'}],
+            },
+          },
+        ],
+      });
+    } else if (path.match(/^models\/[^/:]+:batchEmbedContents$/)) {
+      const {requests = []} = await readJson(req);
+      sendJson(res, 200, {
+        embeddings: requests.map((_: unknown, index: number) => ({
+          values: Array.from({length: STUB_EMBEDDING_SIZE}, (_, i) =>
+            i === index % STUB_EMBEDDING_SIZE ? 1 : 0,
+          ),
+        })),
+      });
+    } else {
+      sendApiError(
+        res,
+        501,
+        'UNIMPLEMENTED',
+        `The stub doesn't implement ${req.method} ${url.pathname}.`,
+      );
+    }
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error(`Stub ${req.method} ${req.url} failed:`, error);
+      sendApiError(res, 500, 'INTERNAL', String(error));
+    });
+  });
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ApiKeyEntry} from '../types';
+
+const KEYS_STORAGE_KEY = 'veo-gallery.apiKeys';
+const ACTIVE_KEY_STORAGE_KEY = 'veo-gallery.activeApiKeyId';
+
+/** Session-only keys live in session storage, so closing the tab drops them. */
+function getStorage(sessionOnly: boolean) {
+  return sessionOnly ? sessionStorage : localStorage;
+}
+
+function readKeys(storage: Storage): ApiKeyEntry[] {
+  try {
+    const keys = JSON.parse(storage.getItem(KEYS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(keys) ? keys : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeKeys(storage: Storage, keys: ApiKeyEntry[]) {
+  if (keys.length > 0) {
+    storage.setItem(KEYS_STORAGE_KEY, JSON.stringify(keys));
+  } else {
+    storage.removeItem(KEYS_STORAGE_KEY);
+  }
+}
+
+/** Returns the saved keys, oldest first. */
+export function loadApiKeys(): ApiKeyEntry[] {
+  return [...readKeys(localStorage), ...readKeys(sessionStorage)].sort(
+    (a, b) => a.addedAt - b.addedAt,
+  );
+}
+
+/**
+ * Returns the key generations are made with: the one chosen last, or the
+ * oldest saved one if that was forgotten or only kept for a closed session.
+ */
+export function getActiveApiKey(): ApiKeyEntry | undefined {
+  const keys = loadApiKeys();
+  const activeId =
+    sessionStorage.getItem(ACTIVE_KEY_STORAGE_KEY) ??
+    localStorage.getItem(ACTIVE_KEY_STORAGE_KEY);
+  return keys.find((entry) => entry.id === activeId) ?? keys[0];
+}
+
+/**
+ * Makes the key with `id` the active one. A session-only key is only active
+ * for this session; the key chosen before it is used again afterwards.
+ */
+export function setActiveApiKey(id: string) {
+  const entry = loadApiKeys().find((e) => e.id === id);
+  if (!entry) return;
+  sessionStorage.removeItem(ACTIVE_KEY_STORAGE_KEY);
+  getStorage(entry.sessionOnly).setItem(ACTIVE_KEY_STORAGE_KEY, id);
+}
+
+/** Saves a key and makes it the active one. */
+export function addApiKey(
+  key: string,
+  label: string,
+  sessionOnly: boolean,
+): ApiKeyEntry {
+  const entry: ApiKeyEntry = {
+    id: self.crypto.randomUUID(),
+    label: label.trim() || `Key ending in ${key.slice(-4)}`,
+    key,
+    sessionOnly,
+    addedAt: Date.now(),
+  };
+  const storage = getStorage(sessionOnly);
+  writeKeys(storage, [...readKeys(storage), entry]);
+  setActiveApiKey(entry.id);
+  return entry;
+}
+
+/** Removes a key from this browser. */
+export function forgetApiKey(id: string) {
+  for (const storage of [localStorage, sessionStorage]) {
+    writeKeys(storage, readKeys(storage).filter((entry) => entry.id !== id));
+    if (storage.getItem(ACTIVE_KEY_STORAGE_KEY) === id) {
+      storage.removeItem(ACTIVE_KEY_STORAGE_KEY);
+    }
+  }
+}
+
+/** Shows enough of a key to tell it apart without revealing it. */
+export function maskApiKey(key: string) {
+  return `••••${key.slice(-4)}`;
+}
@@ -0,0 +1,207 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ErrorDetails, ErrorType, SafetyFilterReport} from '../types';
+
+/** An error whose kind is known where it is thrown. */
+export class GenerationError extends Error {
+  constructor(
+    readonly type: ErrorType,
+    message: string,
+    readonly safety?: SafetyFilterReport,
+  ) {
+    super(message);
+    this.name = 'GenerationError';
+  }
+}
+
+/** The error body the Gemini API sends, e.g. in the message of an ApiError. */
+interface ApiErrorBody {
+  code?: number;
+  message?: string;
+  status?: string;
+}
+
+/** Failures that tend to go away on their own, so are worth retrying. */
+const TRANSIENT_ERROR_TYPES: ErrorType[] = [
+  'quota',
+  'server',
+  'network',
+  'offline',
+];
+
+/**
+ * Reads the JSON error body the SDK puts in an ApiError's message, which may
+ * be preceded by a summary like `got status: 429 Too Many Requests.`.
+ */
+function parseApiErrorBody(message: string): ApiErrorBody {
+  const jsonStart = message.indexOf('{');
+  if (jsonStart < 0) return {};
+  try {
+    const body = JSON.parse(message.slice(jsonStart));
+    return body?.error ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/** Classifies an HTTP status, using the API's error body where it helps. */
+export function getErrorTypeForStatus(
+  status: number,
+  body: ApiErrorBody = {},
+): ErrorType {
+  const message = body.message ?? '';
+  if (status === 401 || status === 403 || /API key/i.test(message)) {
+    return 'api_key';
+  }
+  // Models the key's project can't use are reported as not found.
+  if (status === 404 && message.includes('Requested entity was not found')) {
+    return 'api_key';
+  }
+  if (status === 408) return 'timeout';
+  if (status === 429 || body.status === 'RESOURCE_EXHAUSTED') return 'quota';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'invalid_request';
+  return 'unknown';
+}
+
+/** Works out what kind of failure an error thrown by a generation was. */
+export function classifyError(error: unknown): ErrorType {
+  if (error instanceof GenerationError) {
+    return error.type;
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return 'cancelled';
+  }
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return 'offline';
+  }
+  // The SDK's ApiError carries the HTTP status.
+  if (
+    error instanceof Error &&
+    typeof (error as {status?: unknown}).status === 'number'
+  ) {
+    return getErrorTypeForStatus(
+      (error as Error & {status: number}).status,
+      parseApiErrorBody(error.message),
+    );
+  }
+  // fetch rejects with a TypeError when the request couldn't be sent.
+  if (error instanceof TypeError) {
+    return 'network';
+  }
+  return 'unknown';
+}
+
+export function isTransientError(type: ErrorType) {
+  return TRANSIENT_ERROR_TYPES.includes(type);
+}
+
+/** What the user is told about each kind of failure. */
+const ERROR_DETAILS: Record<ErrorType, Omit<ErrorDetails, 'type'>> = {
+  api_key: {
+    title: 'API Key Needed',
+    messages: [
+      'Veo 3 is only available on the Paid Tier.',
+      'Add an API key from a Cloud project with billing in the settings.',
+    ],
+  },
+  quota: {
+    title: 'Quota Reached',
+    messages: [
+      'Too many requests were sent, or your quota is used up.',
+      'Please wait a few minutes before trying again.',
+    ],
+  },
+  safety_filtered: {
+    title: 'Blocked by Safety Filters',
+    messages: [
+      "The model's safety filters held back the generated video.",
+      'Try rewording the parts of the prompt named below.',
+    ],
+  },
+  invalid_request: {
+    title: 'Request Not Accepted',
+    messages: [
+      'The model could not work with this request.',
+      'Try changing the prompt or the generation settings.',
+    ],
+  },
+  generation_failed: {
+    title: 'Generation Failed',
+    messages: [
+      'The model did not return any video.',
+      'This could be due to your prompt. Please try a different prompt.',
+    ],
+  },
+  server: {
+    title: 'Service Unavailable',
+    messages: [
+      'The video service had a problem and retrying did not help.',
+      'Please try again in a moment.',
+    ],
+  },
+  network: {
+    title: 'Connection Failed',
+    messages: [
+      'The video service could not be reached.',
+      'Please check your network connection and try again.',
+    ],
+  },
+  offline: {
+    title: "You're Offline",
+    messages: ['Reconnect to the internet, then try again.'],
+  },
+  timeout: {
+    title: 'Generation Timed Out',
+    messages: [
+      'The model took too long to generate your video.',
+      'Please try again in a few minutes.',
+    ],
+  },
+  cancelled: {
+    title: 'Generation Cancelled',
+    messages: ['The generation was stopped before it finished.'],
+  },
+  unknown: {
+    title: 'Something Went Wrong',
+    messages: ['The video could not be generated. Please try again.'],
+  },
+};
+
+/** Why a key failed its test, where that differs from a failed generation. */
+const API_KEY_TEST_MESSAGES: Partial<Record<ErrorType, string>> = {
+  api_key: "The key wasn't accepted. Check that it was copied in full.",
+  quota: 'The key is valid, but its quota is used up for now.',
+  invalid_request: "The key wasn't accepted. Check that it was copied in full.",
+  network: 'The Gemini API could not be reached. Check your connection.',
+  offline: "You're offline. Reconnect, then test the key again.",
+};
+
+/** Explains to the user why `error` made a key fail its test. */
+export function getApiKeyTestMessage(error: unknown) {
+  const type = classifyError(error);
+  return API_KEY_TEST_MESSAGES[type] ?? ERROR_DETAILS[type].messages[0];
+}
+
+export function getErrorDetails(error: unknown): ErrorDetails {
+  const type = classifyError(error);
+  const safety = error instanceof GenerationError ? error.safety : undefined;
+  return {...ERROR_DETAILS[type], type, safety};
+}
+
+/** Reports the variations that were filtered from an otherwise done job. */
+export function getPartialFilterDetails(
+  safety: SafetyFilterReport,
+): ErrorDetails {
+  return {
+    title: 'Some Variations Were Blocked',
+    messages: [
+      "The model's safety filters held back some of the generated videos.",
+      'Rewording the parts of the prompt named below may get all of them.',
+    ],
+    type: 'safety_filtered',
+    safety,
+  };
+}
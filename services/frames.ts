@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ImageInput} from '../types';
+
+export function canvasToImage(
+  canvas: HTMLCanvasElement,
+  mimeType: string,
+  quality?: number,
+): ImageInput {
+  const dataUrl = canvas.toDataURL(mimeType, quality);
+  return {imageBytes: dataUrl.split(',')[1], mimeType};
+}
+
+/** Reads an image file or blob into the form the model expects. */
+export function blobToImageInput(blob: Blob) {
+  return new Promise<ImageInput>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve({imageBytes: dataUrl.split(',')[1], mimeType: blob.type});
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Turns an image back into a data URL, e.g. to use it as a poster. */
+export function imageInputToDataUrl(image: ImageInput) {
+  return `data:${image.mimeType};base64,${image.imageBytes}`;
+}
+
+function waitForFrame(video: HTMLVideoElement) {
+  return new Promise<void>((resolve, reject) => {
+    if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+      resolve();
+      return;
+    }
+    video.addEventListener('loadeddata', () => resolve(), {once: true});
+    video.addEventListener(
+      'error',
+      () => reject(new Error('Failed to load video frame')),
+      {once: true},
+    );
+  });
+}
+
+/** Seeks `video` to `time`, in seconds, and waits for the frame to show. */
+export function seekVideo(video: HTMLVideoElement, time: number) {
+  return new Promise<void>((resolve) => {
+    if (Math.abs(video.currentTime - time) < 0.01) {
+      resolve();
+      return;
+    }
+    video.addEventListener('seeked', () => resolve(), {once: true});
+    video.currentTime = time;
+  });
+}
+
+/**
+ * Captures the frame currently shown by `video` at the video's intrinsic
+ * resolution. Throws a `SecurityError` for cross-origin videos served
+ * without CORS headers, since their pixels can't be read back.
+ */
+export async function captureVideoFrame(
+  video: HTMLVideoElement,
+): Promise<ImageInput> {
+  await waitForFrame(video);
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d').drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvasToImage(canvas, 'image/jpeg', 0.92);
+}
+
+/**
+ * Captures the frame at `time` from a copy of the video at `src` loaded with
+ * CORS, for players that load without it so that any host can play. Fails if
+ * the video's server doesn't allow other sites to read it.
+ */
+export async function captureCorsVideoFrame(
+  src: string,
+  time: number,
+): Promise<ImageInput> {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = src;
+  try {
+    await waitForFrame(video);
+    await seekVideo(video, time);
+    return await captureVideoFrame(video);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+  }
+}
+
+/** Whether `error` is the browser refusing to read a cross-origin frame. */
+export function isCrossOriginError(error: unknown) {
+  return error instanceof DOMException && error.name === 'SecurityError';
+}
+
+/**
+ * Returns where the video picture sits inside its element, which letterboxes
+ * it with `object-contain`.
+ */
+export function getContentRect(video: HTMLVideoElement) {
+  const scale = Math.min(
+    video.clientWidth / video.videoWidth,
+    video.clientHeight / video.videoHeight,
+  );
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+  return {
+    x: (video.clientWidth - width) / 2,
+    y: (video.clientHeight - height) / 2,
+    width,
+    height,
+  };
+}
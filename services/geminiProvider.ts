@@ -0,0 +1,323 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  createPartFromUri,
+  createUserContent,
+  FileState,
+  GenerateVideosOperation,
+  GenerateVideosParameters,
+  GoogleGenAI,
+} from '@google/genai';
+import {DURATION_SECONDS, MOCK_VIDEOS} from '../constants';
+import {
+  ErrorType,
+  GenerationRequest,
+  ModelCapabilities,
+} from '../types';
+import {getActiveApiKey} from './apiKeys';
+import {GenerationError, getErrorTypeForStatus} from './errors';
+import {
+  EmbeddingPurpose,
+  GenerationOperation,
+  GenerationProvider,
+} from './generationProvider';
+
+const VEO_FAST_MODEL_NAME = 'veo-3.0-fast-generate-001';
+const VEO_MODEL_NAME = 'veo-3.0-generate-001';
+const PROMPT_MODEL_NAME = 'gemini-2.5-flash';
+const EMBEDDING_MODEL_NAME = 'gemini-embedding-001';
+
+const EMBEDDING_TASK_TYPES: Record<EmbeddingPurpose, string> = {
+  document: 'RETRIEVAL_DOCUMENT',
+  query: 'RETRIEVAL_QUERY',
+};
+
+/**
+ * What a failed operation's error code, a google.rpc.Code, means for the
+ * user. Other codes are reported as a failed generation.
+ */
+const OPERATION_ERROR_TYPES: Record<number, ErrorType> = {
+  3: 'invalid_request', // INVALID_ARGUMENT
+  4: 'timeout', // DEADLINE_EXCEEDED
+  7: 'api_key', // PERMISSION_DENIED
+  8: 'quota', // RESOURCE_EXHAUSTED
+  13: 'server', // INTERNAL
+  14: 'server', // UNAVAILABLE
+  16: 'api_key', // UNAUTHENTICATED
+};
+
+/** How often to check whether an uploaded video is ready to be read. */
+const FILE_POLL_INTERVAL_MS = 2000;
+
+/**
+ * Veo 3 only renders 8 second clips in landscape or portrait. The Gemini API
+ * takes no seed, and only one people setting for each kind of input.
+ */
+const VEO_CAPABILITIES: ModelCapabilities = {
+  aspectRatios: ['16:9', '9:16'],
+  durations: ['long'],
+  resolutions: ['720p', '1080p'],
+  seed: false,
+  textPersonGenerations: ['allow_all'],
+  imagePersonGenerations: ['allow_adult'],
+};
+
+function getModelName(request: GenerationRequest) {
+  return request.quality === 'quality' ? VEO_MODEL_NAME : VEO_FAST_MODEL_NAME;
+}
+
+/**
+ * Builds the model call for a request. A start image is sent as the first
+ * frame. The Gemini API takes no masks, so a region edit is only made through
+ * the instruction the editor added to the prompt.
+ */
+function toGenerateVideosParameters(
+  request: GenerationRequest,
+  signal?: AbortSignal,
+): GenerateVideosParameters {
+  const {
+    prompt,
+    numberOfVideos,
+    aspectRatio,
+    duration,
+    negativePrompt,
+    personGeneration,
+    resolution,
+    image,
+  } = request;
+  const params: GenerateVideosParameters = {
+    model: getModelName(request),
+    prompt,
+    config: {
+      numberOfVideos,
+      aspectRatio,
+      durationSeconds: duration ? DURATION_SECONDS[duration] : undefined,
+      negativePrompt: negativePrompt || undefined,
+      resolution,
+      abortSignal: signal,
+    },
+  };
+
+  if (image) {
+    params.image = image;
+  }
+
+  // The API takes a different people setting for prompts and for images. One
+  // it rejects for this input, e.g. from a video made with another backend,
+  // is left out so the model's default applies.
+  const personGenerations = params.image
+    ? VEO_CAPABILITIES.imagePersonGenerations
+    : VEO_CAPABILITIES.textPersonGenerations;
+  if (personGenerations.includes(personGeneration)) {
+    params.config.personGeneration = personGeneration;
+  }
+
+  return params;
+}
+
+const PROMPT_ELEMENTS =
+  'Describe the style, the setting, the subjects and their actions, the camera shots and moves, any spoken dialogue in double quotes, and the sound effects and music.';
+
+function getPromptExamples() {
+  const examples = MOCK_VIDEOS.slice(0, 2)
+    .map((video) => `- ${video.description}`)
+    .join('\n');
+  return `Prompts in this gallery look like:\n${examples}`;
+}
+
+/** Tells the text model to write prompts like the gallery's own. */
+function getEnhanceInstruction(style: string | undefined) {
+  return [
+    'You write prompts for Veo, a text-to-video model.',
+    style
+      ? `Rewrite the user's prompt in this style: ${style}. Keep its subjects and story.`
+      : "Expand the user's idea into a detailed prompt.",
+    PROMPT_ELEMENTS,
+    'Reply with the prompt only, as a single paragraph of at most 150 words.',
+    getPromptExamples(),
+  ].join('\n');
+}
+
+/** Asks for a description of a video that could be used to regenerate it. */
+function getCaptionInstruction() {
+  return [
+    'Write a prompt for Veo, a text-to-video model, that would recreate this video.',
+    PROMPT_ELEMENTS,
+    'Reply with the prompt only, as a single paragraph of at most 150 words.',
+    getPromptExamples(),
+  ].join('\n');
+}
+
+function toGenerationOperation(
+  operation: GenerateVideosOperation,
+): GenerationOperation {
+  return {
+    name: operation.name,
+    done: operation.done ?? false,
+    videoUris: operation.response?.generatedVideos?.map((generatedVideo) =>
+      decodeURIComponent(generatedVideo.video.uri),
+    ),
+    filteredCount: operation.response?.raiMediaFilteredCount,
+    filteredReasons: operation.response?.raiMediaFilteredReasons,
+    error: operation.error
+      ? new GenerationError(
+          OPERATION_ERROR_TYPES[Number(operation.error.code)] ??
+            'generation_failed',
+          String(operation.error.message ?? 'The operation failed'),
+        )
+      : undefined,
+  };
+}
+
+export interface GeminiProviderOptions {
+  /**
+   * The key to call the API with. Without one, the key that is active in
+   * the settings at the time of each call is used.
+   */
+  apiKey?: string;
+  /** Where the Gemini API is reached, e.g. a stub of it. */
+  baseUrl?: string;
+}
+
+/** Generates videos with Veo through the Gemini API. */
+export function createGeminiProvider({
+  apiKey: fixedApiKey,
+  baseUrl,
+}: GeminiProviderOptions = {}): GenerationProvider {
+  const httpOptions = baseUrl ? {baseUrl} : undefined;
+  let client: {apiKey: string; ai: GoogleGenAI} | null = null;
+
+  /** Returns the client for the current key, rebuilt when the key changes. */
+  const getClient = () => {
+    const apiKey = fixedApiKey ?? getActiveApiKey()?.key;
+    if (!apiKey) {
+      throw new GenerationError('api_key', 'No API key has been added');
+    }
+    if (client?.apiKey !== apiKey) {
+      client = {apiKey, ai: new GoogleGenAI({apiKey, httpOptions})};
+    }
+    return client;
+  };
+
+  return {
+    pollIntervalMs: 10 * 1000,
+    estimatedDurationMs: 90 * 1000,
+    getModelName,
+    getCapabilities: () => VEO_CAPABILITIES,
+
+    start: async (request, signal) =>
+      toGenerationOperation(
+        await getClient().ai.models.generateVideos(
+          toGenerateVideosParameters(request, signal),
+        ),
+      ),
+
+    poll: async (operationName, signal) => {
+      const operation = new GenerateVideosOperation();
+      operation.name = operationName;
+      return toGenerationOperation(
+        await getClient().ai.operations.getVideosOperation({
+          operation,
+          config: {abortSignal: signal},
+        }),
+      );
+    },
+
+    download: async (uri, signal) => {
+      const {apiKey} = getClient();
+      const res = await fetch(`${uri}&key=${encodeURIComponent(apiKey)}`, {
+        signal,
+      });
+      if (!res.ok) {
+        throw new GenerationError(
+          getErrorTypeForStatus(res.status),
+          `Failed to fetch video: ${res.status} ${res.statusText}`,
+        );
+      }
+      return res.blob();
+    },
+
+    requiresApiKey: true,
+
+    // Looking up the Veo model checks that the key is valid without
+    // generating anything. It doesn't show whether the key's project has the
+    // billing Veo needs; only a generation does.
+    testApiKey: async (apiKey, signal) => {
+      await new GoogleGenAI({apiKey, httpOptions}).models.get({
+        model: VEO_FAST_MODEL_NAME,
+        config: {abortSignal: signal},
+      });
+    },
+
+    // The Gemini API can't cancel video operations; they run to completion
+    // on the server and are billed either way.
+    cancel: async () => {},
+
+    enhancePrompt: async (prompt, style, signal) => {
+      const response = await getClient().ai.models.generateContent({
+        model: PROMPT_MODEL_NAME,
+        contents: prompt,
+        config: {
+          systemInstruction: getEnhanceInstruction(style),
+          abortSignal: signal,
+        },
+      });
+      return response.text ?? '';
+    },
+
+    describeVideo: async (video, signal) => {
+      const {ai} = getClient();
+      let file = await ai.files.upload({
+        file: video,
+        config: {mimeType: video.type, abortSignal: signal},
+      });
+      try {
+        // Uploaded videos are processed before the model can read them.
+        while (file.state === FileState.PROCESSING) {
+          await new Promise((resolve) =>
+            setTimeout(resolve, FILE_POLL_INTERVAL_MS),
+          );
+          signal?.throwIfAborted();
+          file = await ai.files.get({
+            name: file.name,
+            config: {abortSignal: signal},
+          });
+        }
+        if (file.state === FileState.FAILED) {
+          throw new Error(`Failed to process video: ${file.error?.message}`);
+        }
+        const response = await ai.models.generateContent({
+          model: PROMPT_MODEL_NAME,
+          contents: createUserContent([
+            createPartFromUri(file.uri, file.mimeType),
+            getCaptionInstruction(),
+          ]),
+          config: {abortSignal: signal},
+        });
+        return response.text ?? '';
+      } finally {
+        ai.files
+          .delete({name: file.name})
+          .catch((error) =>
+            console.warn('Failed to delete the uploaded video:', error),
+          );
+      }
+    },
+
+    embeddingModelName: EMBEDDING_MODEL_NAME,
+
+    embedTexts: async (texts, purpose, signal) => {
+      const response = await getClient().ai.models.embedContent({
+        model: EMBEDDING_MODEL_NAME,
+        contents: texts,
+        config: {
+          taskType: EMBEDDING_TASK_TYPES[purpose],
+          abortSignal: signal,
+        },
+      });
+      return response.embeddings.map((embedding) => embedding.values);
+    },
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {GenerationRequest} from '../types';
+import {GenerationError} from './errors';
+import {generateVideos, GenerationControl} from './generation';
+import {getGenerationProvider} from './generationProvider';
+
+// The mock provider's operations finish at once. Its clips are drawn on a
+// canvas, which Node doesn't have, so downloads return the URI instead.
+vi.mock('./generationProvider', async () => {
+  const {createMockProvider} = await import('./mockProvider');
+  const provider = {
+    ...createMockProvider({delayMs: 0}),
+    download: async (uri: string) => new Blob([uri], {type: 'video/mp4'}),
+  };
+  return {getGenerationProvider: () => provider};
+});
+
+const provider = getGenerationProvider();
+
+function createRequest(
+  overrides: Partial<GenerationRequest> = {},
+): GenerationRequest {
+  return {
+    prompt: 'A lighthouse at dusk',
+    title: 'Lighthouse',
+    description: 'A lighthouse at dusk',
+    numberOfVideos: 1,
+    aspectRatio: '16:9',
+    ...overrides,
+  };
+}
+
+/** Runs a generation, letting its polls and retry delays pass at once. */
+async function generate(
+  request: GenerationRequest,
+  control?: GenerationControl,
+) {
+  const result = generateVideos(request, control);
+  // Rejections are awaited below, once the timers have run.
+  result.catch(() => {});
+  await vi.runAllTimersAsync();
+  return result;
+}
+
+describe('generateVideos', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('downloads every video of a finished operation', async () => {
+    const onOperationStarted = vi.fn();
+    const onPhase = vi.fn();
+
+    const result = await generate(createRequest({numberOfVideos: 2}), {
+      onOperationStarted,
+      onPhase,
+    });
+
+    expect(result.videos).toHaveLength(2);
+    expect(result.safety).toBeUndefined();
+    expect(onOperationStarted).toHaveBeenCalledOnce();
+    expect(onPhase.mock.calls).toEqual([['polling'], ['downloading']]);
+  });
+
+  it('retries transient failures', async () => {
+    const poll = vi
+      .spyOn(provider, 'poll')
+      .mockRejectedValueOnce(new GenerationError('server', 'Unavailable'));
+
+    const result = await generate(createRequest());
+
+    expect(result.videos).toHaveLength(1);
+    expect(poll).toHaveBeenCalledTimes(2);
+  });
+
+  it("doesn't retry other failures", async () => {
+    const error = new GenerationError('invalid_request', 'Bad prompt');
+    const start = vi.spyOn(provider, 'start').mockRejectedValue(error);
+
+    await expect(generate(createRequest())).rejects.toBe(error);
+    expect(start).toHaveBeenCalledOnce();
+  });
+
+  it('returns the videos left when some were filtered', async () => {
+    const result = await generate(
+      createRequest({prompt: 'A lighthouse #filter', numberOfVideos: 4}),
+    );
+
+    expect(result.videos).toHaveLength(2);
+    expect(result.safety).toMatchObject({filteredCount: 2, requestedCount: 4});
+    expect(result.safety.reasons).toHaveLength(1);
+  });
+
+  it('fails when every video was filtered', async () => {
+    await expect(
+      generate(createRequest({prompt: 'A lighthouse #filter'})),
+    ).rejects.toMatchObject({
+      type: 'safety_filtered',
+      safety: {filteredCount: 1, requestedCount: 1},
+    });
+  });
+
+  it('fails when the operation returns no videos', async () => {
+    await expect(
+      generate(createRequest({prompt: 'A lighthouse #fail'})),
+    ).rejects.toMatchObject({type: 'generation_failed'});
+  });
+
+  it('polls a resumed operation before timing it out', async () => {
+    const {name} = await provider.start(createRequest());
+    const poll = vi.spyOn(provider, 'poll');
+
+    const result = await generate(createRequest(), {
+      operationName: name,
+      startedAt: Date.now() - 60 * 60 * 1000,
+    });
+
+    expect(result.videos).toHaveLength(1);
+    expect(poll).toHaveBeenCalledOnce();
+  });
+
+  it('times out an operation that never finishes', async () => {
+    vi.spyOn(provider, 'poll').mockImplementation(async (name) => ({
+      name,
+      done: false,
+    }));
+
+    await expect(
+      generate(createRequest(), {timeoutMs: 5000}),
+    ).rejects.toMatchObject({type: 'timeout'});
+  });
+});
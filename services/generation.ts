@@ -0,0 +1,229 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GenerationQuality,
+  GenerationRequest,
+  SafetyFilterReport,
+} from '../types';
+import {classifyError, GenerationError, isTransientError} from './errors';
+import {
+  GenerationOperation,
+  getGenerationProvider,
+} from './generationProvider';
+
+const GENERATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** How often, and how patiently, transient API failures are retried. */
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 30 * 1000;
+
+/** Typical time from submitting a generation to the videos being ready. */
+export const ESTIMATED_GENERATION_MS =
+  getGenerationProvider().estimatedDurationMs;
+
+/** Whether the configured backend needs an API key from the settings. */
+export const REQUIRES_API_KEY = getGenerationProvider().requiresApiKey;
+
+/**
+ * The videos of a finished generation. `safety` is set when safety filters
+ * held back some of the requested variations.
+ */
+export interface GenerationResult {
+  videos: Blob[];
+  safety?: SafetyFilterReport;
+}
+
+/** The phases of a generation that are reported back to the caller. */
+export type GenerationPhase = 'polling' | 'downloading';
+
+/**
+ * Controls a single generation run. Passing `operationName` resumes polling an
+ * operation started earlier (e.g. before a page reload) instead of starting a
+ * new one; the timeout then counts from its original `startedAt`.
+ */
+export interface GenerationControl {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  operationName?: string;
+  startedAt?: number;
+  onOperationStarted?: (operationName: string, startedAt: number) => void;
+  onPhase?: (phase: GenerationPhase) => void;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+}
+
+/**
+ * Calls `task` until it succeeds, retrying transient failures with
+ * exponential backoff and some jitter. Other failures, and the last transient
+ * one, are rethrown. Aborting `signal` stops waiting for the next attempt.
+ */
+async function withRetry<T>(
+  task: () => Promise<T>,
+  signal?: AbortSignal,
+  retries = MAX_RETRIES,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      const type = classifyError(error);
+      if (attempt >= retries || signal?.aborted || !isTransientError(type)) {
+        throw error;
+      }
+      const delay = Math.round(
+        Math.min(
+          BASE_RETRY_DELAY_MS * 2 ** attempt * (1 + Math.random() / 4),
+          MAX_RETRY_DELAY_MS,
+        ),
+      );
+      console.warn(`Retrying after a ${type} error in ${delay}ms:`, error);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+/** Returns the model a request is generated with. */
+export function getModelName(request: GenerationRequest) {
+  return getGenerationProvider().getModelName(request);
+}
+
+/** Returns the settings supported by the model used for `quality`. */
+export function getModelCapabilities(quality: GenerationQuality) {
+  return getGenerationProvider().getCapabilities(quality);
+}
+
+/**
+ * Checks that the backend accepts `apiKey` before it is saved or switched to,
+ * throwing the backend's error if it doesn't.
+ */
+export function testApiKey(apiKey: string, signal?: AbortSignal) {
+  return getGenerationProvider().testApiKey(apiKey, signal);
+}
+
+/**
+ * Expands a short idea into a detailed prompt, or rewrites it in `style`.
+ */
+export async function enhancePrompt(
+  prompt: string,
+  style?: string,
+  signal?: AbortSignal,
+) {
+  const enhanced = (
+    await getGenerationProvider().enhancePrompt(prompt, style, signal)
+  ).trim();
+  if (!enhanced) {
+    throw new Error('No prompt returned');
+  }
+  return enhanced;
+}
+
+/** Describes an uploaded video in the style of the gallery's prompts. */
+export async function describeVideo(video: Blob, signal?: AbortSignal) {
+  const description = (
+    await getGenerationProvider().describeVideo(video, signal)
+  ).trim();
+  if (!description) {
+    throw new Error('No description returned');
+  }
+  return description;
+}
+
+/**
+ * Generates the videos for a request with the configured provider. A
+ * generation whose videos were all filtered fails with a `safety_filtered`
+ * error; one that lost only some of them succeeds with the rest.
+ *
+ * Aborting `signal` stops polling and downloading with an `AbortError` and
+ * asks the provider to cancel the operation, which not every backend can.
+ */
+export async function generateVideos(
+  request: GenerationRequest,
+  control: GenerationControl = {},
+): Promise<GenerationResult> {
+  const provider = getGenerationProvider();
+  const {signal, operationName, onOperationStarted, onPhase} = control;
+  const startedAt = control.startedAt ?? Date.now();
+  const deadline = startedAt + (control.timeoutMs ?? GENERATION_TIMEOUT_MS);
+
+  let operation: GenerationOperation;
+  if (operationName) {
+    operation = {name: operationName, done: false};
+  } else {
+    operation = await withRetry(() => provider.start(request, signal), signal);
+    onOperationStarted?.(operation.name, startedAt);
+  }
+
+  try {
+    onPhase?.('polling');
+    // A resumed operation is polled right away, even past its deadline: it
+    // may have finished while the page was closed.
+    let skipWait = operationName !== undefined;
+    while (!operation.done) {
+      if (!skipWait) {
+        if (Date.now() >= deadline) {
+          throw new GenerationError('timeout', 'Generation timed out');
+        }
+        await sleep(provider.pollIntervalMs, signal);
+      }
+      skipWait = false;
+      const {name} = operation;
+      operation = await withRetry(() => provider.poll(name, signal), signal);
+    }
+
+    const videoUris = operation.videoUris ?? [];
+    const safety: SafetyFilterReport | undefined = operation.filteredCount
+      ? {
+          filteredCount: operation.filteredCount,
+          requestedCount: Math.max(
+            request.numberOfVideos,
+            videoUris.length + operation.filteredCount,
+          ),
+          reasons: operation.filteredReasons ?? [],
+        }
+      : undefined;
+    if (operation.error) {
+      throw operation.error;
+    }
+    if (videoUris.length === 0) {
+      throw safety
+        ? new GenerationError('safety_filtered', 'Videos filtered', safety)
+        : new GenerationError('generation_failed', 'No videos generated');
+    }
+
+    onPhase?.('downloading');
+    const videos = await Promise.all(
+      videoUris.map((uri) =>
+        withRetry(() => provider.download(uri, signal), signal),
+      ),
+    );
+    return {videos, safety};
+  } catch (error) {
+    if (signal?.aborted) {
+      provider
+        .cancel(operation.name)
+        .catch((cancelError) =>
+          console.error('Failed to cancel the operation:', cancelError),
+        );
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  GenerationQuality,
+  GenerationRequest,
+  ModelCapabilities,
+} from '../types';
+import {GenerationError} from './errors';
+import {createGeminiProvider} from './geminiProvider';
+import {createMockProvider} from './mockProvider';
+import {createProxyProvider} from './proxyProvider';
+
+/** A backend-agnostic view of a long-running video generation. */
+export interface GenerationOperation {
+  name: string;
+  done: boolean;
+  /** Where the finished videos can be downloaded from, once done. */
+  videoUris?: string[];
+  /** Why the operation failed, if it finished without videos. */
+  error?: GenerationError;
+  /** How many videos safety filters held back, and their reasons. */
+  filteredCount?: number;
+  filteredReasons?: string[];
+}
+
+/**
+ * A backend that can generate videos. Generation is a long-running
+ * operation: it is started, polled by name until done, and its videos are
+ * then downloaded one by one. Its text model also helps write prompts.
+ */
+export interface GenerationProvider {
+  /** How often to poll a running operation. */
+  pollIntervalMs: number;
+  /** Typical time from starting an operation to it being done. */
+  estimatedDurationMs: number;
+  getModelName: (request: GenerationRequest) => string;
+  /** What the model used for the given quality supports. */
+  getCapabilities: (quality: GenerationQuality) => ModelCapabilities;
+  start: (
+    request: GenerationRequest,
+    signal?: AbortSignal,
+  ) => Promise<GenerationOperation>;
+  poll: (
+    operationName: string,
+    signal?: AbortSignal,
+  ) => Promise<GenerationOperation>;
+  download: (uri: string, signal?: AbortSignal) => Promise<Blob>;
+  /** Whether calls need an API key from the settings. */
+  requiresApiKey: boolean;
+  /** Checks that the backend accepts `apiKey`, throwing its error if not. */
+  testApiKey: (apiKey: string, signal?: AbortSignal) => Promise<void>;
+  /** Stops a running operation, where the backend supports it. */
+  cancel: (operationName: string) => Promise<void>;
+  /**
+   * Expands a short idea into a detailed video prompt, or rewrites a prompt
+   * in `style` when one is given.
+   */
+  enhancePrompt: (
+    prompt: string,
+    style: string | undefined,
+    signal?: AbortSignal,
+  ) => Promise<string>;
+  /** Writes a prompt-style description of what happens in a video. */
+  describeVideo: (video: Blob, signal?: AbortSignal) => Promise<string>;
+  /** Identifies the embedding model, so cached vectors can be told apart. */
+  embeddingModelName: string;
+  /**
+   * Embeds each text as a vector. Documents are what is searched, queries
+   * what is searched for; some models embed the two differently.
+   */
+  embedTexts: (
+    texts: string[],
+    purpose: EmbeddingPurpose,
+    signal?: AbortSignal,
+  ) => Promise<number[][]>;
+}
+
+export type EmbeddingPurpose = 'document' | 'query';
+
+let provider: GenerationProvider | null = null;
+
+/**
+ * Returns the configured provider: the Gemini API by default, the offline
+ * mock when `GENERATION_PROVIDER` is set to `mock`, or the proxy server at
+ * `PROXY_URL` when it is set to `proxy`.
+ */
+export function getGenerationProvider(): GenerationProvider {
+  if (!provider) {
+    switch (process.env.GENERATION_PROVIDER) {
+      case 'mock':
+        provider = createMockProvider({
+          delayMs: Number(process.env.MOCK_GENERATION_DELAY_MS) || undefined,
+          failureRate: Number(process.env.MOCK_FAILURE_RATE) || undefined,
+        });
+        break;
+      case 'proxy':
+        provider = createProxyProvider(process.env.PROXY_URL || undefined);
+        break;
+      default:
+        provider = createGeminiProvider();
+    }
+  }
+  return provider;
+}
@@ -0,0 +1,319 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  Collection,
+  FailedAttempt,
+  GenerationRequest,
+  Video,
+  VideoAnnotations,
+} from '../types';
+
+const DB_NAME = 'veo-gallery';
+const DB_VERSION = 5;
+
+/** Object store holding video metadata, keyed by video id. */
+const VIDEOS_STORE = 'videos';
+/** Object store holding the video binaries, keyed by video id. */
+const BLOBS_STORE = 'blobs';
+/** Object store holding in-flight generation operations, keyed by job id. */
+const OPERATIONS_STORE = 'operations';
+/** Object store caching text embeddings, keyed by model and text. */
+const EMBEDDINGS_STORE = 'embeddings';
+/** Object store holding collections, keyed by collection id. */
+const COLLECTIONS_STORE = 'collections';
+/**
+ * Object store holding tags, favorites and ratings of the seed videos, which
+ * aren't stored themselves. Keyed by video id.
+ */
+const SEED_ANNOTATIONS_STORE = 'seedAnnotations';
+/** Object store holding failed generations, keyed by job id. */
+const FAILED_ATTEMPTS_STORE = 'failedAttempts';
+
+/** The persisted form of a user video; its binary is stored separately. */
+interface VideoRecord extends Omit<Video, 'videoUrl'> {
+  savedAt: number;
+}
+
+/** A user video as loaded from the library, with its binary. */
+export interface StoredVideo {
+  video: Video;
+  blob: Blob;
+}
+
+/**
+ * A generation whose operation was submitted but not yet downloaded. Kept so
+ * that polling can resume after a page reload.
+ */
+export interface PendingOperation extends GenerationRequest {
+  id: string;
+  operationName: string;
+  startedAt: number;
+}
+
+interface EmbeddingRecord {
+  key: string;
+  vector: number[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let lastSavedAt = 0;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(VIDEOS_STORE)) {
+          db.createObjectStore(VIDEOS_STORE, {keyPath: 'id'});
+        }
+        if (!db.objectStoreNames.contains(BLOBS_STORE)) {
+          db.createObjectStore(BLOBS_STORE);
+        }
+        if (!db.objectStoreNames.contains(OPERATIONS_STORE)) {
+          db.createObjectStore(OPERATIONS_STORE, {keyPath: 'id'});
+        }
+        if (!db.objectStoreNames.contains(EMBEDDINGS_STORE)) {
+          db.createObjectStore(EMBEDDINGS_STORE, {keyPath: 'key'});
+        }
+        if (!db.objectStoreNames.contains(COLLECTIONS_STORE)) {
+          db.createObjectStore(COLLECTIONS_STORE, {keyPath: 'id'});
+        }
+        if (!db.objectStoreNames.contains(SEED_ANNOTATIONS_STORE)) {
+          db.createObjectStore(SEED_ANNOTATIONS_STORE);
+        }
+        if (!db.objectStoreNames.contains(FAILED_ATTEMPTS_STORE)) {
+          db.createObjectStore(FAILED_ATTEMPTS_STORE, {keyPath: 'id'});
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Loads every persisted user video with its binary, newest first. Records
+ * whose binary is missing are skipped.
+ */
+export async function loadLibrary(): Promise<StoredVideo[]> {
+  const db = await openDb();
+  const tx = db.transaction([VIDEOS_STORE, BLOBS_STORE], 'readonly');
+  const records = await requestToPromise<VideoRecord[]>(
+    tx.objectStore(VIDEOS_STORE).getAll(),
+  );
+  const blobs = await Promise.all(
+    records.map((record) =>
+      requestToPromise<Blob | undefined>(
+        tx.objectStore(BLOBS_STORE).get(record.id),
+      ),
+    ),
+  );
+
+  return records
+    .map((record, index) => ({record, blob: blobs[index]}))
+    .filter(({blob}) => blob !== undefined)
+    .sort((a, b) => b.record.savedAt - a.record.savedAt)
+    .map(({record, blob}) => {
+      const {savedAt, ...video} = record;
+      return {video, blob};
+    });
+}
+
+/**
+ * Persists a user video together with its binary in a single transaction.
+ * Later saves sort ahead of earlier ones, even within the same millisecond.
+ */
+export async function saveVideo(video: Video, blob: Blob): Promise<void> {
+  lastSavedAt = Math.max(Date.now(), lastSavedAt + 1);
+  const {videoUrl, ...metadata} = video;
+  const record: VideoRecord = {...metadata, savedAt: lastSavedAt};
+
+  const db = await openDb();
+  const tx = db.transaction([VIDEOS_STORE, BLOBS_STORE], 'readwrite');
+  tx.objectStore(VIDEOS_STORE).put(record);
+  tx.objectStore(BLOBS_STORE).put(blob, video.id);
+  await transactionDone(tx);
+}
+
+/**
+ * Saves changed metadata of a stored video, keeping its binary and its place
+ * in the library. Videos that aren't stored are ignored.
+ */
+export async function updateVideo(video: Video): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(VIDEOS_STORE, 'readwrite');
+  const store = tx.objectStore(VIDEOS_STORE);
+  const existing = await requestToPromise<VideoRecord | undefined>(
+    store.get(video.id),
+  );
+  if (existing) {
+    const {videoUrl, ...metadata} = video;
+    store.put({...metadata, savedAt: existing.savedAt});
+  }
+  await transactionDone(tx);
+}
+
+/** Removes a stored video and its binary. */
+export async function deleteVideo(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction([VIDEOS_STORE, BLOBS_STORE], 'readwrite');
+  tx.objectStore(VIDEOS_STORE).delete(id);
+  tx.objectStore(BLOBS_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+/** Loads the generations that were still in flight when the page closed. */
+export async function loadPendingOperations(): Promise<PendingOperation[]> {
+  const db = await openDb();
+  const tx = db.transaction(OPERATIONS_STORE, 'readonly');
+  const operations = await requestToPromise<PendingOperation[]>(
+    tx.objectStore(OPERATIONS_STORE).getAll(),
+  );
+  return operations.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+export async function savePendingOperation(
+  operation: PendingOperation,
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(OPERATIONS_STORE, 'readwrite');
+  tx.objectStore(OPERATIONS_STORE).put(operation);
+  await transactionDone(tx);
+}
+
+export async function deletePendingOperation(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(OPERATIONS_STORE, 'readwrite');
+  tx.objectStore(OPERATIONS_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+/** Loads the cached embeddings for `keys`; missing ones are left out. */
+export async function loadEmbeddings(
+  keys: string[],
+): Promise<Map<string, number[]>> {
+  const db = await openDb();
+  const tx = db.transaction(EMBEDDINGS_STORE, 'readonly');
+  const records = await Promise.all(
+    keys.map((key) =>
+      requestToPromise<EmbeddingRecord | undefined>(
+        tx.objectStore(EMBEDDINGS_STORE).get(key),
+      ),
+    ),
+  );
+  const vectors = new Map<string, number[]>();
+  for (const record of records) {
+    if (record) {
+      vectors.set(record.key, record.vector);
+    }
+  }
+  return vectors;
+}
+
+export async function saveEmbeddings(
+  vectors: Map<string, number[]>,
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+  for (const [key, vector] of vectors) {
+    tx.objectStore(EMBEDDINGS_STORE).put({key, vector});
+  }
+  await transactionDone(tx);
+}
+
+/** Loads every collection, oldest first. */
+export async function loadCollections(): Promise<Collection[]> {
+  const db = await openDb();
+  const tx = db.transaction(COLLECTIONS_STORE, 'readonly');
+  const collections = await requestToPromise<Collection[]>(
+    tx.objectStore(COLLECTIONS_STORE).getAll(),
+  );
+  return collections.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+export async function saveCollection(collection: Collection): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(COLLECTIONS_STORE, 'readwrite');
+  tx.objectStore(COLLECTIONS_STORE).put(collection);
+  await transactionDone(tx);
+}
+
+export async function deleteCollection(id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(COLLECTIONS_STORE, 'readwrite');
+  tx.objectStore(COLLECTIONS_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+/** Loads the annotations of the seed videos, keyed by video id. */
+export async function loadSeedAnnotations(): Promise<
+  Record<string, VideoAnnotations>
+> {
+  const db = await openDb();
+  const tx = db.transaction(SEED_ANNOTATIONS_STORE, 'readonly');
+  const store = tx.objectStore(SEED_ANNOTATIONS_STORE);
+  const [keys, values] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise<VideoAnnotations[]>(store.getAll()),
+  ]);
+  const annotations: Record<string, VideoAnnotations> = {};
+  keys.forEach((key, index) => {
+    annotations[String(key)] = values[index];
+  });
+  return annotations;
+}
+
+export async function saveSeedAnnotations(
+  id: string,
+  annotations: VideoAnnotations,
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(SEED_ANNOTATIONS_STORE, 'readwrite');
+  tx.objectStore(SEED_ANNOTATIONS_STORE).put(annotations, id);
+  await transactionDone(tx);
+}
+
+/** Loads the failed generations, newest first. */
+export async function loadFailedAttempts(): Promise<FailedAttempt[]> {
+  const db = await openDb();
+  const tx = db.transaction(FAILED_ATTEMPTS_STORE, 'readonly');
+  const attempts = await requestToPromise<FailedAttempt[]>(
+    tx.objectStore(FAILED_ATTEMPTS_STORE).getAll(),
+  );
+  return attempts.sort((a, b) => b.failedAt - a.failedAt);
+}
+
+export async function saveFailedAttempt(
+  attempt: FailedAttempt,
+): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(FAILED_ATTEMPTS_STORE, 'readwrite');
+  tx.objectStore(FAILED_ATTEMPTS_STORE).put(attempt);
+  await transactionDone(tx);
+}
+
+export async function clearFailedAttempts(): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(FAILED_ATTEMPTS_STORE, 'readwrite');
+  tx.objectStore(FAILED_ATTEMPTS_STORE).clear();
+  await transactionDone(tx);
+}
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '../types';
+import {DEFAULT_PROXY_URL, PROXY_ROUTES} from './proxyProvider';
+
+/**
+ * In proxy mode the proxy server also keeps the library on its disk: the
+ * generated MP4s and a manifest of every video. Elsewhere these are no-ops.
+ */
+const proxyUrl =
+  process.env.GENERATION_PROVIDER === 'proxy'
+    ? process.env.PROXY_URL || DEFAULT_PROXY_URL
+    : null;
+
+async function send(path: string, init: RequestInit) {
+  if (!proxyUrl) return;
+  const res = await fetch(`${proxyUrl}${path}`, init);
+  if (!res.ok) {
+    throw new Error(`Failed to write to disk: ${res.status} ${res.statusText}`);
+  }
+}
+
+function getVideoPath(id: string) {
+  return `${PROXY_ROUTES.libraryVideos}/${encodeURIComponent(id)}`;
+}
+
+/** Writes a generated video to disk as `<id>.mp4`. */
+export function saveVideoFile(id: string, blob: Blob) {
+  return send(getVideoPath(id), {
+    method: 'PUT',
+    headers: {'Content-Type': blob.type || 'video/mp4'},
+    body: blob,
+  });
+}
+
+export function deleteVideoFile(id: string) {
+  return send(getVideoPath(id), {method: 'DELETE'});
+}
+
+/** Replaces the manifest on disk with the metadata of `videos`. */
+export function saveManifest(videos: Video[]) {
+  return send(PROXY_ROUTES.manifest, {
+    method: 'PUT',
+    headers: {'Content-Type': 'application/json'},
+    body: JSON.stringify({videos}),
+  });
+}
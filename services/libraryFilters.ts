@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Collection, Video, VideoSource} from '../types';
+
+/**
+ * What the gallery is narrowed down to; unset fields don't filter. Archived
+ * videos are only shown, and then exclusively, with `archivedOnly`.
+ */
+export interface LibraryFilter {
+  source?: VideoSource;
+  favoritesOnly?: boolean;
+  collectionId?: string;
+  tag?: string;
+  archivedOnly?: boolean;
+}
+
+/** Tags are compared case-insensitively, so they're stored lowercase. */
+export function normalizeTag(tag: string) {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function getVideoSource(
+  video: Video,
+  seedIds: Set<string>,
+): VideoSource {
+  if (seedIds.has(video.id)) return 'seed';
+  return video.generation ? 'generated' : 'uploaded';
+}
+
+/** Every tag used in the library, alphabetically. */
+export function getAllTags(videos: Video[]) {
+  const tags = new Set<string>();
+  for (const video of videos) {
+    video.tags?.forEach((tag) => tags.add(tag));
+  }
+  return [...tags].sort();
+}
+
+export function isFilterActive(filter: LibraryFilter) {
+  return Boolean(
+    filter.source ||
+      filter.favoritesOnly ||
+      filter.collectionId ||
+      filter.tag ||
+      filter.archivedOnly,
+  );
+}
+
+/** Keeps the videos that pass every part of `filter`, in order. */
+export function filterLibrary(
+  videos: Video[],
+  filter: LibraryFilter,
+  collections: Collection[],
+  seedIds: Set<string>,
+) {
+  const collection = collections.find(({id}) => id === filter.collectionId);
+  const collectionIds = collection ? new Set(collection.videoIds) : null;
+  return videos.filter(
+    (video) =>
+      (!filter.source || getVideoSource(video, seedIds) === filter.source) &&
+      (!filter.favoritesOnly || video.isFavorite) &&
+      (!collectionIds || collectionIds.has(video.id)) &&
+      (!filter.tag || video.tags?.includes(filter.tag)) &&
+      Boolean(filter.archivedOnly) === Boolean(video.isArchived),
+  );
+}
@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {MaskKeyframe, MaskShape} from '../types';
+import {describeMaskRegion, getMaskBounds, shapesAtTime} from './maskShapes';
+
+function rectangle(
+  x: number,
+  y: number,
+  size: number,
+  tool: 'rectangle' | 'ellipse' = 'rectangle',
+): MaskShape {
+  return {
+    tool,
+    from: {x, y},
+    to: {x: x + size, y: y + size},
+  };
+}
+
+describe('getMaskBounds', () => {
+  it('spans every painted shape and ignores erasers', () => {
+    expect(
+      getMaskBounds([
+        rectangle(0.1, 0.2, 0.2),
+        {
+          tool: 'brush',
+          size: 0.05,
+          points: [
+            {x: 0.5, y: 0.5},
+            {x: 0.6, y: 0.3},
+          ],
+        },
+        {tool: 'eraser', size: 0.05, points: [{x: 0.9, y: 0.9}]},
+      ]),
+    ).toEqual({x: 0.1, y: 0.2, width: 0.5, height: 0.3});
+  });
+
+  it('returns null when nothing is painted', () => {
+    expect(getMaskBounds([])).toBeNull();
+  });
+});
+
+describe('shapesAtTime', () => {
+  const keyframes: MaskKeyframe[] = [
+    {time: 1, shapes: [rectangle(0, 0, 0.2)]},
+    {time: 3, shapes: [rectangle(0.4, 0.4, 0.2)]},
+  ];
+
+  it('holds the nearest keyframe outside their span', () => {
+    expect(shapesAtTime(keyframes, 0)).toBe(keyframes[0].shapes);
+    expect(shapesAtTime(keyframes, 5)).toBe(keyframes[1].shapes);
+    expect(shapesAtTime([], 1)).toEqual([]);
+  });
+
+  it('morphs matching shapes between keyframes', () => {
+    const [shape] = shapesAtTime(keyframes, 2);
+    expect(shape).toMatchObject({tool: 'rectangle'});
+    if (shape.tool !== 'rectangle') return;
+    expect(shape.from.x).toBeCloseTo(0.2);
+    expect(shape.to.y).toBeCloseTo(0.4);
+  });
+
+  it('moves shapes that differ toward the next bounding box', () => {
+    const [shape] = shapesAtTime(
+      [
+        {time: 0, shapes: [rectangle(0, 0, 0.2)]},
+        {time: 2, shapes: [rectangle(0.6, 0.6, 0.4, 'ellipse')]},
+      ],
+      1,
+    );
+    expect(shape.tool).toBe('rectangle');
+    const bounds = getMaskBounds([shape]);
+    expect(bounds.x).toBeCloseTo(0.3);
+    expect(bounds.width).toBeCloseTo(0.3);
+  });
+});
+
+describe('describeMaskRegion', () => {
+  it('says where a still mask is', () => {
+    expect(
+      describeMaskRegion(null, [{time: 0, shapes: [rectangle(0.1, 0.5, 0.3)]}]),
+    ).toBe(
+      'The highlighted area spans 10% to 40% from the left and 50% to 80% from the top of the picture.',
+    );
+  });
+
+  it('uses the mask held into the time range', () => {
+    expect(
+      describeMaskRegion({start: 2, end: 4}, [
+        {time: 0, shapes: [rectangle(0, 0, 0.5)]},
+      ]),
+    ).toBe(
+      'Only change the video between 2.0s and 4.0s. The highlighted area spans 0% to 50% from the left and 0% to 50% from the top of the picture.',
+    );
+  });
+
+  it('describes how a moving mask travels', () => {
+    expect(
+      describeMaskRegion(null, [
+        {time: 0, shapes: [rectangle(0, 0, 0.2)]},
+        {time: 2, shapes: [rectangle(0.6, 0.4, 0.2)]},
+      ]),
+    ).toBe(
+      'The highlighted area moves over time: at 0.0s it is centered 10% from the left and 10% from the top; at 2.0s it is centered 70% from the left and 50% from the top.',
+    );
+  });
+
+  it('returns an empty string without a painted mask', () => {
+    expect(describeMaskRegion(null, [])).toBe('');
+  });
+});
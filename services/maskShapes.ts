@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  ImageInput,
+  MaskKeyframe,
+  MaskPoint,
+  MaskShape,
+  MaskTimeRange,
+} from '../types';
+import {canvasToImage} from './frames';
+
+/** The pixel area that normalized mask coordinates are mapped onto. */
+export interface MaskArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Draws `shapes` in order onto `context`, mapping them onto `area`. Eraser
+ * strokes cut through everything drawn before them.
+ */
+export function drawMaskShapes(
+  context: CanvasRenderingContext2D,
+  shapes: MaskShape[],
+  area: MaskArea,
+  color: string,
+) {
+  const toX = (x: number) => area.x + x * area.width;
+  const toY = (y: number) => area.y + y * area.height;
+
+  for (const shape of shapes) {
+    context.save();
+    context.globalCompositeOperation =
+      shape.tool === 'eraser' ? 'destination-out' : 'source-over';
+    context.fillStyle = color;
+    context.strokeStyle = color;
+    context.beginPath();
+
+    if ('points' in shape) {
+      context.lineWidth = shape.size * area.width;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      const [first, ...rest] = shape.points;
+      context.moveTo(toX(first.x), toY(first.y));
+      // A single tap still leaves a dot thanks to the round line cap.
+      for (const point of rest.length > 0 ? rest : [first]) {
+        context.lineTo(toX(point.x), toY(point.y));
+      }
+      context.stroke();
+    } else {
+      const left = toX(Math.min(shape.from.x, shape.to.x));
+      const top = toY(Math.min(shape.from.y, shape.to.y));
+      const width = toX(Math.max(shape.from.x, shape.to.x)) - left;
+      const height = toY(Math.max(shape.from.y, shape.to.y)) - top;
+      if (shape.tool === 'rectangle') {
+        context.rect(left, top, width, height);
+      } else {
+        context.ellipse(
+          left + width / 2,
+          top + height / 2,
+          width / 2,
+          height / 2,
+          0,
+          0,
+          2 * Math.PI,
+        );
+      }
+      context.fill();
+    }
+
+    context.restore();
+  }
+}
+
+/** Whether the shapes paint anything, ignoring what erasers take away. */
+export function hasMaskContent(shapes: MaskShape[]) {
+  return shapes.some((shape) => shape.tool !== 'eraser');
+}
+
+/**
+ * Renders `shapes` into a black and white PNG mask of the given size, white
+ * wherever the user painted. Anti-aliased edges are snapped to either color.
+ */
+export function renderMaskImage(
+  shapes: MaskShape[],
+  width: number,
+  height: number,
+): ImageInput {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  drawMaskShapes(context, shapes, {x: 0, y: 0, width, height}, '#fff');
+
+  const pixels = context.getImageData(0, 0, width, height);
+  const data = pixels.data;
+  for (let i = 0; i < data.length; i += 4) {
+    const value = data[i + 3] >= 128 ? 255 : 0;
+    data[i] = value;
+    data[i + 1] = value;
+    data[i + 2] = value;
+    data[i + 3] = 255;
+  }
+  context.putImageData(pixels, 0, 0);
+  return canvasToImage(canvas, 'image/png');
+}
+
+// ---
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const lerpPoint = (a: MaskPoint, b: MaskPoint, t: number): MaskPoint => ({
+  x: lerp(a.x, b.x, t),
+  y: lerp(a.y, b.y, t),
+});
+
+/** Returns the normalized bounding box of everything painted, if anything. */
+export function getMaskBounds(shapes: MaskShape[]): MaskArea | null {
+  const points = shapes.flatMap((shape) => {
+    if (shape.tool === 'eraser') return [];
+    return 'points' in shape ? shape.points : [shape.from, shape.to];
+  });
+  if (points.length === 0) return null;
+
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return {x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y};
+}
+
+function canMorph(a: MaskShape, b: MaskShape) {
+  if (a.tool !== b.tool) return false;
+  if ('points' in a && 'points' in b) {
+    return a.points.length === b.points.length;
+  }
+  return true;
+}
+
+function morphShape(a: MaskShape, b: MaskShape, t: number): MaskShape {
+  if ('points' in a && 'points' in b) {
+    return {
+      ...a,
+      size: lerp(a.size, b.size, t),
+      points: a.points.map((point, i) => lerpPoint(point, b.points[i], t)),
+    };
+  }
+  if ('from' in a && 'from' in b) {
+    return {
+      ...a,
+      from: lerpPoint(a.from, b.from, t),
+      to: lerpPoint(a.to, b.to, t),
+    };
+  }
+  return a;
+}
+
+/** Moves and scales `shapes` so that the `from` box lands on the `to` box. */
+function transformShapes(
+  shapes: MaskShape[],
+  from: MaskArea,
+  to: MaskArea,
+): MaskShape[] {
+  const scaleX = from.width > 0 ? to.width / from.width : 1;
+  const scaleY = from.height > 0 ? to.height / from.height : 1;
+  const move = (point: MaskPoint): MaskPoint => ({
+    x: to.x + (point.x - from.x) * scaleX,
+    y: to.y + (point.y - from.y) * scaleY,
+  });
+  return shapes.map((shape) =>
+    'points' in shape
+      ? {...shape, points: shape.points.map(move)}
+      : {...shape, from: move(shape.from), to: move(shape.to)},
+  );
+}
+
+/**
+ * Returns the mask at `time` from keyframes sorted by time. Between two
+ * keyframes with matching shapes each shape is morphed; otherwise the earlier
+ * keyframe is moved and scaled toward the later one's bounding box. Before
+ * the first and after the last keyframe, the nearest keyframe holds.
+ */
+export function shapesAtTime(
+  keyframes: MaskKeyframe[],
+  time: number,
+): MaskShape[] {
+  if (keyframes.length === 0) return [];
+
+  const nextIndex = keyframes.findIndex((keyframe) => keyframe.time > time);
+  if (nextIndex === 0) return keyframes[0].shapes;
+  if (nextIndex === -1) return keyframes[keyframes.length - 1].shapes;
+
+  const a = keyframes[nextIndex - 1];
+  const b = keyframes[nextIndex];
+  const t = (time - a.time) / (b.time - a.time);
+  if (t === 0) return a.shapes;
+
+  if (
+    a.shapes.length === b.shapes.length &&
+    a.shapes.every((shape, i) => canMorph(shape, b.shapes[i]))
+  ) {
+    return a.shapes.map((shape, i) => morphShape(shape, b.shapes[i], t));
+  }
+
+  const fromBounds = getMaskBounds(a.shapes);
+  const toBounds = getMaskBounds(b.shapes);
+  if (!fromBounds || !toBounds) return a.shapes;
+  return transformShapes(a.shapes, fromBounds, {
+    x: lerp(fromBounds.x, toBounds.x, t),
+    y: lerp(fromBounds.y, toBounds.y, t),
+    width: lerp(fromBounds.width, toBounds.width, t),
+    height: lerp(fromBounds.height, toBounds.height, t),
+  });
+}
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Describes where the highlighted area is, when a region edit applies and how
+ * the area moves, as sentences for the edit instruction. The model never sees
+ * the mask itself, so this is all it is told about the area.
+ */
+export function describeMaskRegion(
+  timeRange: MaskTimeRange | null,
+  keyframes: MaskKeyframe[],
+): string {
+  const sentences: string[] = [];
+  if (timeRange) {
+    sentences.push(
+      `Only change the video between ${formatSeconds(timeRange.start)} and ${formatSeconds(timeRange.end)}.`,
+    );
+  }
+
+  const positions = keyframes
+    .filter(
+      (keyframe) =>
+        !timeRange ||
+        (keyframe.time >= timeRange.start && keyframe.time <= timeRange.end),
+    )
+    .map((keyframe) => ({
+      time: keyframe.time,
+      bounds: getMaskBounds(keyframe.shapes),
+    }))
+    .filter(({bounds}) => bounds !== null);
+
+  if (positions.length > 1) {
+    const path = positions.map(
+      ({time, bounds}) =>
+        `at ${formatSeconds(time)} it is centered ${formatPercent(bounds.x + bounds.width / 2)} from the left and ${formatPercent(bounds.y + bounds.height / 2)} from the top`,
+    );
+    sentences.push(`The highlighted area moves over time: ${path.join('; ')}.`);
+  } else {
+    // A keyframe before the time range still holds inside it.
+    const bounds =
+      positions[0]?.bounds ??
+      getMaskBounds(shapesAtTime(keyframes, timeRange?.start ?? 0));
+    if (bounds) {
+      sentences.push(
+        `The highlighted area spans ${formatPercent(bounds.x)} to ${formatPercent(bounds.x + bounds.width)} from the left and ${formatPercent(bounds.y)} to ${formatPercent(bounds.y + bounds.height)} from the top of the picture.`,
+      );
+    }
+  }
+
+  return sentences.join(' ');
+}
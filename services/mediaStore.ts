@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Holds the binaries of the user's videos in memory, keyed by video id, and
+ * hands out object URLs for them. An object URL keeps its Blob alive until it
+ * is revoked, so URLs are reference counted: every `acquireMediaUrl` must be
+ * balanced by a `releaseMediaUrl` of the URL it returned, and the URL is
+ * revoked with the last one, even if its video was replaced or deleted since.
+ */
+
+interface MediaEntry {
+  blob: Blob;
+  url?: string;
+  refCount: number;
+}
+
+const entries = new Map<string, MediaEntry>();
+
+/** The entries whose URLs are in use, including replaced and deleted ones. */
+const entriesByUrl = new Map<string, MediaEntry>();
+
+/** Stores the binary of a video, replacing any earlier one. */
+export function putMedia(id: string, blob: Blob) {
+  entries.set(id, {blob, refCount: 0});
+}
+
+export function getMediaBlob(id: string): Blob | undefined {
+  return entries.get(id)?.blob;
+}
+
+/**
+ * Returns an object URL for the binary of a video, or undefined if none is
+ * stored, e.g. for seed videos that are streamed from their own URL.
+ */
+export function acquireMediaUrl(id: string): string | undefined {
+  const entry = entries.get(id);
+  if (!entry) return undefined;
+  if (!entry.url) {
+    entry.url = URL.createObjectURL(entry.blob);
+    entriesByUrl.set(entry.url, entry);
+  }
+  entry.refCount++;
+  return entry.url;
+}
+
+export function releaseMediaUrl(url: string) {
+  const entry = entriesByUrl.get(url);
+  if (!entry) return;
+  entry.refCount--;
+  if (entry.refCount === 0) {
+    URL.revokeObjectURL(url);
+    entriesByUrl.delete(url);
+    entry.url = undefined;
+  }
+}
+
+/**
+ * Drops the binary of a deleted video. A URL still shown somewhere stays
+ * valid until it is released.
+ */
+export function deleteMedia(id: string) {
+  entries.delete(id);
+}
@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {AspectRatio, GenerationRequest, ModelCapabilities} from '../types';
+import {GenerationOperation, GenerationProvider} from './generationProvider';
+
+const MOCK_MODEL_NAME = 'mock-veo';
+
+/** The mock renders any setting, so every option can be exercised. */
+const MOCK_CAPABILITIES: ModelCapabilities = {
+  aspectRatios: ['16:9', '9:16', '1:1'],
+  durations: ['short', 'medium', 'long'],
+  resolutions: ['720p', '1080p'],
+  seed: true,
+  textPersonGenerations: ['allow_all', 'allow_adult', 'dont_allow'],
+  imagePersonGenerations: ['allow_all', 'allow_adult', 'dont_allow'],
+};
+
+/** Prompts containing this always fail, to exercise error handling. */
+const FAIL_KEYWORD = '#fail';
+
+/**
+ * Prompts containing this lose half their variations, rounded up, to the
+ * safety filters, so both partial and complete filtering can be exercised.
+ */
+const FILTER_KEYWORD = '#filter';
+
+const MOCK_FILTER_REASON =
+  'The mock could not generate some videos because the prompt contains #filter. Support codes: 00000000';
+
+/** Mock embeddings hash words into a vector of this many dimensions. */
+const MOCK_EMBEDDING_SIZE = 64;
+
+const CLIP_DURATION_MS = 3000;
+const CLIP_FPS = 30;
+
+export interface MockProviderOptions {
+  /** How long each operation takes to finish. */
+  delayMs?: number;
+  /** Chance, from 0 to 1, that an operation finishes without videos. */
+  failureRate?: number;
+}
+
+/**
+ * Everything needed to answer a poll is kept in the operation name, so
+ * operations resume across page reloads like real ones.
+ */
+interface MockOperationState {
+  doneAt: number;
+  fails: boolean;
+  filteredCount: number;
+  numberOfVideos: number;
+  aspectRatio: AspectRatio;
+  label: string;
+}
+
+/**
+ * A bag-of-words vector: texts sharing words end up close together, which is
+ * enough to exercise semantic search without a model.
+ */
+function embedText(text: string) {
+  const vector = new Array<number>(MOCK_EMBEDDING_SIZE).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z0-9]+/g) ?? []) {
+    let hash = 0;
+    for (const char of word) {
+      hash = (hash * 31 + char.charCodeAt(0)) | 0;
+    }
+    vector[Math.abs(hash) % MOCK_EMBEDDING_SIZE] += 1;
+  }
+  return vector;
+}
+
+function encodeOperationName(state: MockOperationState) {
+  return `mock/operations/${encodeURIComponent(JSON.stringify(state))}`;
+}
+
+function decodeOperationName(name: string): MockOperationState {
+  return JSON.parse(decodeURIComponent(name.split('/').pop()));
+}
+
+function wait(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+}
+
+/**
+ * Records a short clip of an animated gradient with the prompt written on
+ * it, so the app can be demoed without network access.
+ */
+async function synthesizeClip(
+  label: string,
+  aspectRatio: AspectRatio,
+  hue: number,
+  signal?: AbortSignal,
+): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = aspectRatio === '9:16' ? 360 : 640;
+  canvas.height = aspectRatio === '16:9' ? 360 : 640;
+  const context = canvas.getContext('2d');
+
+  const recorder = new MediaRecorder(canvas.captureStream(CLIP_FPS));
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => chunks.push(event.data);
+  const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+  recorder.start();
+
+  const frameCount = (CLIP_DURATION_MS / 1000) * CLIP_FPS;
+  for (let frame = 0; frame < frameCount; frame++) {
+    const t = frame / frameCount;
+    const gradient = context.createLinearGradient(
+      0,
+      0,
+      canvas.width,
+      canvas.height,
+    );
+    gradient.addColorStop(0, `hsl(${hue + t * 90}, 70%, 45%)`);
+    gradient.addColorStop(1, `hsl(${hue + 180 + t * 90}, 70%, 25%)`);
+    context.fillStyle = gradient;
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.fillStyle = 'white';
+    context.font = 'bold 20px sans-serif';
+    context.textAlign = 'center';
+    context.fillText(
+      label,
+      canvas.width / 2,
+      canvas.height / 2,
+      canvas.width - 40,
+    );
+    await wait(1000 / CLIP_FPS, signal);
+  }
+
+  recorder.stop();
+  await stopped;
+  return new Blob(chunks, {type: recorder.mimeType || 'video/webm'});
+}
+
+/**
+ * A generation backend that runs entirely in the browser: operations finish
+ * after a fixed delay and their videos are synthesized on download. Failures
+ * happen at `failureRate`, or always for prompts containing `#fail`; prompts
+ * containing `#filter` are partly filtered.
+ */
+export function createMockProvider({
+  delayMs = 8000,
+  failureRate = 0,
+}: MockProviderOptions = {}): GenerationProvider {
+  const poll = async (operationName: string): Promise<GenerationOperation> => {
+    const state = decodeOperationName(operationName);
+    const done = Date.now() >= state.doneAt;
+    // Operations started before filtering was mocked have no count.
+    const filteredCount = state.filteredCount ?? 0;
+    const isFiltered = done && filteredCount > 0;
+    return {
+      name: operationName,
+      done,
+      filteredCount: isFiltered ? filteredCount : undefined,
+      filteredReasons: isFiltered ? [MOCK_FILTER_REASON] : undefined,
+      videoUris:
+        done && !state.fails
+          ? Array.from(
+              {length: state.numberOfVideos - filteredCount},
+              (_, index) =>
+                `mock://clip/${index}?${new URLSearchParams({
+                  aspectRatio: state.aspectRatio,
+                  label: state.label,
+                })}`,
+            )
+          : undefined,
+    };
+  };
+
+  return {
+    pollIntervalMs: 1000,
+    estimatedDurationMs: delayMs,
+    getModelName: () => MOCK_MODEL_NAME,
+    getCapabilities: () => MOCK_CAPABILITIES,
+
+    start: async (request: GenerationRequest) => {
+      const state: MockOperationState = {
+        doneAt: Date.now() + delayMs,
+        fails:
+          request.prompt.includes(FAIL_KEYWORD) || Math.random() < failureRate,
+        filteredCount: request.prompt.includes(FILTER_KEYWORD)
+          ? Math.ceil(request.numberOfVideos / 2)
+          : 0,
+        numberOfVideos: request.numberOfVideos,
+        aspectRatio: request.aspectRatio,
+        label: request.title.slice(0, 60),
+      };
+      return {name: encodeOperationName(state), done: false};
+    },
+
+    poll,
+
+    download: async (uri, signal) => {
+      const url = new URL(uri);
+      const index = Number(url.pathname.split('/').pop());
+      return synthesizeClip(
+        url.searchParams.get('label'),
+        url.searchParams.get('aspectRatio') as AspectRatio,
+        (index * 67) % 360,
+        signal,
+      );
+    },
+
+    requiresApiKey: false,
+
+    testApiKey: (apiKey, signal) => wait(Math.min(delayMs, 500), signal),
+
+    cancel: async () => {},
+
+    enhancePrompt: async (prompt, style, signal) => {
+      await wait(Math.min(delayMs, 1500), signal);
+      const idea = prompt.trim().replace(/[.!?]*$/, '');
+      return [
+        style ? `${style}: ${idea}.` : `${idea}.`,
+        'The camera slowly pushes in from a wide establishing shot.',
+        'Soft ambient sound and a gentle score play throughout.',
+      ].join(' ');
+    },
+
+    describeVideo: async (video, signal) => {
+      await wait(Math.min(delayMs, 3000), signal);
+      const sizeMb = (video.size / (1024 * 1024)).toFixed(1);
+      return `Handheld footage: A ${sizeMb} MB clip recorded on location. The camera holds a steady mid-shot as the subject moves through the frame. Natural ambient sound fills the background.`;
+    },
+
+    embeddingModelName: 'mock-embedding',
+
+    embedTexts: async (texts) => texts.map(embedText),
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {
+  assemblePrompt,
+  createEmptyPromptParts,
+  parsePrompt,
+} from './promptBuilder';
+
+const PROMPT =
+  'Claymation: A cozy kitchen at dawn. A clay cat stretches on the counter. ' +
+  'The camera slowly pans to the window. The cat says, "Time for breakfast, ' +
+  'I think." Soft piano music plays.';
+
+describe('parsePrompt', () => {
+  it('sorts the sentences of a prompt into its parts', () => {
+    expect(parsePrompt(PROMPT)).toEqual({
+      style: 'Claymation',
+      scene: 'A cozy kitchen at dawn.',
+      subjects: 'A clay cat stretches on the counter.',
+      camera: 'The camera slowly pans to the window.',
+      dialogue: ['The cat says, "Time for breakfast, I think."'],
+      audio: 'Soft piano music plays.',
+    });
+  });
+
+  it('treats short quotes as sound effects rather than dialogue', () => {
+    const parts = parsePrompt('A quiet street. A dog barks "woof".');
+    expect(parts.dialogue).toEqual([]);
+    expect(parts.subjects).toBe('A dog barks "woof".');
+  });
+
+  it('returns empty parts for an empty prompt', () => {
+    expect(parsePrompt('  ')).toEqual(createEmptyPromptParts());
+  });
+});
+
+describe('assemblePrompt', () => {
+  it('writes back a prompt whose parts were already in order', () => {
+    expect(assemblePrompt(parsePrompt(PROMPT))).toBe(PROMPT);
+  });
+
+  it('puts the style first and skips empty parts', () => {
+    expect(
+      assemblePrompt({
+        ...createEmptyPromptParts(),
+        style: ' Noir ',
+        audio: 'Rain falls.',
+        scene: 'A dark alley.',
+      }),
+    ).toBe('Noir: A dark alley. Rain falls.');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {PromptParts} from '../types';
+
+/** A short label before a colon, e.g. "Claymation (Stop Motion): ...". */
+const STYLE_PREFIX = /^([^:.!?"]{1,60}):\s+/;
+
+const CAMERA_PATTERN =
+  /\b(camera|shot|close-up|zooms?|pans?|tracking|dolly|pull-out|pulls? back|aerial|POV|angle|frame)\b/i;
+
+const AUDIO_PATTERN =
+  /\b(sounds?|audio|music|hum|murmurs?|chimes?|tune|melod\w*|SFX|noise|heard|echoes|bass|piano|flute|voice)\b/i;
+
+const SCENE_PATTERN =
+  /\b(background|light|lit|atmosphere|landscape|setting|night|dusk|dawn|morning)\b/i;
+
+/** Quotes this long are speech; shorter ones are usually sound effects. */
+const MIN_DIALOGUE_WORDS = 3;
+
+export function createEmptyPromptParts(): PromptParts {
+  return {
+    style: '',
+    scene: '',
+    subjects: '',
+    camera: '',
+    dialogue: [],
+    audio: '',
+  };
+}
+
+/** Splits text into sentences, never inside a double-quoted passage. */
+function splitSentences(text: string) {
+  const sentences: string[] = [];
+  let current = '';
+  let inQuote = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    current += char;
+    if (char === '"') {
+      inQuote = !inQuote;
+    }
+    const next = text[i + 1];
+    const isEnd =
+      /[.!?]/.test(char) && (next === undefined || /\s/.test(next));
+    const isQuotedEnd =
+      char === '"' &&
+      !inQuote &&
+      /[.!?,]/.test(text[i - 1]) &&
+      (next === undefined || /\s/.test(next)) &&
+      /^\s+[A-Z]/.test(text.slice(i + 1));
+    if (!inQuote && (isEnd || isQuotedEnd)) {
+      sentences.push(current.trim());
+      current = '';
+    }
+  }
+  if (current.trim()) {
+    sentences.push(current.trim());
+  }
+  return sentences;
+}
+
+function hasSpokenLine(sentence: string) {
+  const quotes = sentence.match(/"[^"]*"/g) ?? [];
+  return quotes.some(
+    (quote) =>
+      quote.slice(1, -1).trim().split(/\s+/).length >= MIN_DIALOGUE_WORDS,
+  );
+}
+
+function joinSentences(sentences: string[]) {
+  return sentences.join(' ');
+}
+
+/**
+ * Sorts the sentences of a free-form prompt into its parts. This is a
+ * heuristic: the opening sentence sets the scene, later ones go to the
+ * first part whose wording they match, and the rest describe the subjects.
+ */
+export function parsePrompt(text: string): PromptParts {
+  const parts = createEmptyPromptParts();
+  let body = text.trim();
+  const styleMatch = body.match(STYLE_PREFIX);
+  if (styleMatch) {
+    parts.style = styleMatch[1].trim();
+    body = body.slice(styleMatch[0].length);
+  }
+
+  const scene: string[] = [];
+  const subjects: string[] = [];
+  const camera: string[] = [];
+  const audio: string[] = [];
+  splitSentences(body).forEach((sentence, index) => {
+    if (hasSpokenLine(sentence)) {
+      parts.dialogue.push(sentence);
+    } else if (index === 0) {
+      // Prompts open by establishing where the video takes place.
+      scene.push(sentence);
+    } else if (CAMERA_PATTERN.test(sentence)) {
+      camera.push(sentence);
+    } else if (AUDIO_PATTERN.test(sentence)) {
+      audio.push(sentence);
+    } else if (SCENE_PATTERN.test(sentence)) {
+      scene.push(sentence);
+    } else {
+      subjects.push(sentence);
+    }
+  });
+
+  parts.scene = joinSentences(scene);
+  parts.subjects = joinSentences(subjects);
+  parts.camera = joinSentences(camera);
+  parts.audio = joinSentences(audio);
+  return parts;
+}
+
+/** Writes the parts back out as a single prompt, style first. */
+export function assemblePrompt(parts: PromptParts) {
+  const body = joinSentences(
+    [
+      parts.scene,
+      parts.subjects,
+      parts.camera,
+      ...parts.dialogue,
+      parts.audio,
+    ]
+      .map((part) => part.trim())
+      .filter(Boolean),
+  );
+  const style = parts.style.trim();
+  return style ? `${style}: ${body}` : body;
+}
@@ -0,0 +1,188 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {ErrorType, SafetyFilterReport} from '../types';
+import {classifyError, GenerationError, getErrorTypeForStatus} from './errors';
+import {createGeminiProvider} from './geminiProvider';
+import {GenerationOperation, GenerationProvider} from './generationProvider';
+
+/** Where the app reaches the proxy server unless `PROXY_URL` says otherwise. */
+export const DEFAULT_PROXY_URL = '/api';
+
+/** The proxy server's endpoints, relative to its URL. */
+export const PROXY_ROUTES = {
+  operations: '/operations',
+  download: '/videos/download',
+  enhancePrompt: '/prompts/enhance',
+  describeVideo: '/videos/describe',
+  embeddings: '/embeddings',
+  libraryVideos: '/library/videos',
+  manifest: '/library/manifest',
+};
+
+/** A failure as the proxy server reports it. */
+export interface ProxyError {
+  type: ErrorType;
+  message: string;
+  safety?: SafetyFilterReport;
+}
+
+/** An operation as the proxy server sends it; its error is a plain object. */
+export type ProxyOperation = Omit<GenerationOperation, 'error'> & {
+  error?: ProxyError;
+};
+
+/** Describes an error thrown on the server so the app can classify it. */
+export function toProxyError(error: unknown): ProxyError {
+  return {
+    type: classifyError(error),
+    message: error instanceof Error ? error.message : String(error),
+    safety: error instanceof GenerationError ? error.safety : undefined,
+  };
+}
+
+/** Prepares an operation on the server to be sent to the app. */
+export function toProxyOperation({
+  error,
+  ...operation
+}: GenerationOperation): ProxyOperation {
+  return {...operation, error: error ? toProxyError(error) : undefined};
+}
+
+function fromProxyError({type, message, safety}: ProxyError) {
+  return new GenerationError(type, message, safety);
+}
+
+function fromProxyOperation(operation: ProxyOperation): GenerationOperation {
+  return {
+    ...operation,
+    error: operation.error ? fromProxyError(operation.error) : undefined,
+  };
+}
+
+/** Turns a failed response into the error it reports, or one for its status. */
+export async function readProxyError(res: Response) {
+  try {
+    const {error} = (await res.json()) as {error: ProxyError};
+    if (error?.type) {
+      return fromProxyError(error);
+    }
+  } catch {
+    // Not a response from the proxy server, e.g. the dev server's own error.
+  }
+  return new GenerationError(
+    getErrorTypeForStatus(res.status),
+    `Proxy request failed: ${res.status} ${res.statusText}`,
+  );
+}
+
+/**
+ * Generates videos through the gallery's proxy server (see `server/`), which
+ * holds the API key, so the browser needs none. The models and their
+ * settings are the Gemini provider's; only the calls go through the proxy.
+ */
+export function createProxyProvider(
+  baseUrl = DEFAULT_PROXY_URL,
+): GenerationProvider {
+  const {
+    pollIntervalMs,
+    estimatedDurationMs,
+    getModelName,
+    getCapabilities,
+    embeddingModelName,
+  } = createGeminiProvider();
+
+  const call = async (path: string, init?: RequestInit) => {
+    const res = await fetch(`${baseUrl}${path}`, init);
+    if (!res.ok) {
+      throw await readProxyError(res);
+    }
+    return res;
+  };
+
+  const postJson = async <T>(
+    path: string,
+    body: unknown,
+    signal?: AbortSignal,
+  ): Promise<T> => {
+    const res = await call(path, {
+      method: 'POST',
+      headers: {'Content-Type': 'application/json'},
+      body: JSON.stringify(body),
+      signal,
+    });
+    return res.json();
+  };
+
+  return {
+    pollIntervalMs,
+    estimatedDurationMs,
+    getModelName,
+    getCapabilities,
+
+    start: async (request, signal) =>
+      fromProxyOperation(
+        await postJson<ProxyOperation>(
+          PROXY_ROUTES.operations,
+          request,
+          signal,
+        ),
+      ),
+
+    poll: async (operationName, signal) => {
+      const query = new URLSearchParams({name: operationName});
+      const res = await call(`${PROXY_ROUTES.operations}?${query}`, {signal});
+      return fromProxyOperation(await res.json());
+    },
+
+    download: async (uri, signal) => {
+      const query = new URLSearchParams({uri});
+      const res = await call(`${PROXY_ROUTES.download}?${query}`, {signal});
+      return res.blob();
+    },
+
+    requiresApiKey: false,
+
+    testApiKey: async () => {
+      throw new GenerationError(
+        'invalid_request',
+        'The proxy server uses its own API key',
+      );
+    },
+
+    // The proxy calls the Gemini API, which can't cancel video operations.
+    cancel: async () => {},
+
+    enhancePrompt: async (prompt, style, signal) => {
+      const {text} = await postJson<{text: string}>(
+        PROXY_ROUTES.enhancePrompt,
+        {prompt, style},
+        signal,
+      );
+      return text;
+    },
+
+    describeVideo: async (video, signal) => {
+      const res = await call(PROXY_ROUTES.describeVideo, {
+        method: 'POST',
+        headers: {'Content-Type': video.type},
+        body: video,
+        signal,
+      });
+      const {text} = (await res.json()) as {text: string};
+      return text;
+    },
+
+    embeddingModelName,
+
+    embedTexts: async (texts, purpose, signal) => {
+      const {embeddings} = await postJson<{embeddings: number[][]}>(
+        PROXY_ROUTES.embeddings,
+        {texts, purpose},
+        signal,
+      );
+      return embeddings;
+    },
+  };
+}
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {Video} from '../types';
+import {
+  getMatchExcerpt,
+  highlightMatches,
+  rankByEmbedding,
+  searchVideos,
+  tokenize,
+} from './search';
+
+function createVideo(id: string, title: string, description = ''): Video {
+  return {id, title, description};
+}
+
+const VIDEOS = [
+  createVideo('ocean', 'Ocean waves', 'Waves roll onto a sandy beach.'),
+  createVideo('city', 'City at night', 'Neon lights reflect on the ocean.'),
+  createVideo('forest', 'Forest walk', 'Sunlight through tall trees.'),
+];
+
+const ids = (results: {video: Video}[]) =>
+  results.map((result) => result.video.id);
+
+describe('tokenize', () => {
+  it('lowercases words and drops possessive endings', () => {
+    expect(tokenize("The Cat's hat, 2 times")).toEqual([
+      'the',
+      'cat',
+      'hat',
+      '2',
+      'times',
+    ]);
+  });
+});
+
+describe('searchVideos', () => {
+  it('returns every video for an empty query', () => {
+    expect(ids(searchVideos(VIDEOS, '  '))).toEqual([
+      'ocean',
+      'city',
+      'forest',
+    ]);
+  });
+
+  it('ranks title matches above description matches', () => {
+    expect(ids(searchVideos(VIDEOS, 'ocean'))).toEqual(['ocean', 'city']);
+  });
+
+  it('leaves out videos missing any word of the query', () => {
+    expect(ids(searchVideos(VIDEOS, 'ocean neon'))).toEqual(['city']);
+  });
+
+  it('matches prefixes and small typos', () => {
+    expect(ids(searchVideos(VIDEOS, 'fore'))).toEqual(['forest']);
+    expect(ids(searchVideos(VIDEOS, 'sunlihgt'))).toEqual(['forest']);
+  });
+
+  it('ignores words too different from the query', () => {
+    expect(searchVideos(VIDEOS, 'desert')).toEqual([]);
+  });
+});
+
+describe('highlightMatches', () => {
+  it('splits the text around matching words', () => {
+    expect(highlightMatches('Waves roll in', 'roll')).toEqual([
+      {text: 'Waves ', isMatch: false},
+      {text: 'roll', isMatch: true},
+      {text: ' in', isMatch: false},
+    ]);
+  });
+});
+
+describe('getMatchExcerpt', () => {
+  it('cuts the text around the first match', () => {
+    expect(getMatchExcerpt('one two three four five', 'three', 6)).toBe(
+      '…e two three…',
+    );
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(getMatchExcerpt('one two three', 'seven')).toBeNull();
+  });
+});
+
+describe('rankByEmbedding', () => {
+  it('ranks by closeness to the query, leaving out unembedded videos', () => {
+    const vectors = new Map([
+      ['ocean', [1, 0]],
+      ['city', [0.6, 0.8]],
+    ]);
+    expect(ids(rankByEmbedding(VIDEOS, vectors, [0, 1]))).toEqual([
+      'city',
+      'ocean',
+    ]);
+  });
+});
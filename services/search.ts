@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '../types';
+
+/** A video that matched a search, and how well. */
+export interface SearchResult {
+  video: Video;
+  score: number;
+}
+
+/** A run of text that does or doesn't match the search query. */
+export interface HighlightPart {
+  text: string;
+  isMatch: boolean;
+}
+
+/** Matches in the title count for more than matches in the description. */
+const TITLE_WEIGHT = 3;
+
+/** Below this, a word is too different from the query to count as a match. */
+const MIN_TOKEN_SCORE = 0.5;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/** Lowercase words of `text`, without possessive endings. */
+export function tokenize(text: string) {
+  return (text.toLowerCase().match(WORD_PATTERN) ?? []).filter(
+    (word) => word !== 's',
+  );
+}
+
+/** Edit distance where swapping two neighbouring letters is one edit. */
+function editDistance(a: string, b: string) {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({length: b.length + 1}, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * How well a word matches a query token, from 0 to 1: exact matches beat
+ * prefixes, which beat substrings, which beat near misses (typos).
+ */
+function scoreToken(token: string, word: string) {
+  if (word === token) return 1;
+  if (word.startsWith(token)) return 0.9;
+  if (token.length >= 3 && word.includes(token)) return 0.7;
+  const allowedEdits = token.length >= 8 ? 2 : token.length >= 5 ? 1 : 0;
+  if (allowedEdits === 0 || Math.abs(word.length - token.length) > 2) {
+    return 0;
+  }
+  const distance = editDistance(token, word);
+  return distance <= allowedEdits ? 0.7 - 0.1 * distance : 0;
+}
+
+function bestTokenScore(token: string, words: string[]) {
+  let best = 0;
+  for (const word of words) {
+    best = Math.max(best, scoreToken(token, word));
+    if (best === 1) break;
+  }
+  return best;
+}
+
+/**
+ * Ranks videos by how well their title and description match every word of
+ * `query`. Videos missing any word are left out; ties keep library order.
+ */
+export function searchVideos(videos: Video[], query: string): SearchResult[] {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) {
+    return videos.map((video) => ({video, score: 0}));
+  }
+
+  const results: SearchResult[] = [];
+  for (const video of videos) {
+    const titleWords = tokenize(video.title);
+    const descriptionWords = tokenize(video.description);
+    let score = 0;
+    for (const token of tokens) {
+      const titleScore = bestTokenScore(token, titleWords);
+      const descriptionScore = bestTokenScore(token, descriptionWords);
+      const tokenScore = Math.max(titleScore * TITLE_WEIGHT, descriptionScore);
+      if (Math.max(titleScore, descriptionScore) < MIN_TOKEN_SCORE) {
+        score = 0;
+        break;
+      }
+      score += tokenScore;
+    }
+    if (score > 0) {
+      results.push({video, score});
+    }
+  }
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/** Splits `text` into the words that match `query` and the text between. */
+export function highlightMatches(text: string, query: string) {
+  const tokens = tokenize(query);
+  const parts: HighlightPart[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0].toLowerCase();
+    if (
+      !tokens.some((token) => scoreToken(token, word) >= MIN_TOKEN_SCORE)
+    ) {
+      continue;
+    }
+    if (match.index > lastIndex) {
+      parts.push({text: text.slice(lastIndex, match.index), isMatch: false});
+    }
+    parts.push({text: match[0], isMatch: true});
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    parts.push({text: text.slice(lastIndex), isMatch: false});
+  }
+  return parts;
+}
+
+/**
+ * A short excerpt of `text` around its first word matching `query`, or null
+ * when nothing matches.
+ */
+export function getMatchExcerpt(text: string, query: string, radius = 60) {
+  const tokens = tokenize(query);
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0].toLowerCase();
+    if (tokens.some((token) => scoreToken(token, word) >= MIN_TOKEN_SCORE)) {
+      const start = Math.max(0, match.index - radius);
+      const end = Math.min(text.length, match.index + radius);
+      return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${
+        end < text.length ? '…' : ''
+      }`;
+    }
+  }
+  return null;
+}
+
+function cosineSimilarity(a: number[], b: number[]) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Ranks videos by how close the embedding of their description is to the
+ * query's. Videos without an embedding are left out.
+ */
+export function rankByEmbedding(
+  videos: Video[],
+  vectorsById: Map<string, number[]>,
+  queryVector: number[],
+): SearchResult[] {
+  return videos
+    .filter((video) => vectorsById.has(video.id))
+    .map((video) => ({
+      video,
+      score: cosineSimilarity(vectorsById.get(video.id), queryVector),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
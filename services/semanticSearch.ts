@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {Video} from '../types';
+import {
+  EmbeddingPurpose,
+  getGenerationProvider,
+} from './generationProvider';
+import {loadEmbeddings, saveEmbeddings} from './libraryDb';
+import {rankByEmbedding, SearchResult} from './search';
+
+/** The most texts embedded in a single request. */
+const EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * Results scoring below this fraction of the best one are dropped. Absolute
+ * similarities vary a lot between models, relative ones much less.
+ */
+const RELATIVE_MIN_SCORE = 0.85;
+
+function getCacheKey(model: string, purpose: EmbeddingPurpose, text: string) {
+  return `${model}/${purpose}/${text}`;
+}
+
+/**
+ * Embeds `texts`, reusing vectors cached in the library database and caching
+ * the new ones. Returns the vectors keyed by text.
+ */
+async function embedWithCache(
+  texts: string[],
+  purpose: EmbeddingPurpose,
+  signal?: AbortSignal,
+) {
+  const provider = getGenerationProvider();
+  const model = provider.embeddingModelName;
+  const uniqueTexts = [...new Set(texts)];
+  let cached = new Map<string, number[]>();
+  try {
+    cached = await loadEmbeddings(
+      uniqueTexts.map((text) => getCacheKey(model, purpose, text)),
+    );
+  } catch (error) {
+    console.error('Failed to load cached embeddings:', error);
+  }
+
+  const vectors = new Map<string, number[]>();
+  const missing: string[] = [];
+  for (const text of uniqueTexts) {
+    const vector = cached.get(getCacheKey(model, purpose, text));
+    if (vector) {
+      vectors.set(text, vector);
+    } else {
+      missing.push(text);
+    }
+  }
+
+  const fresh = new Map<string, number[]>();
+  for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const batchVectors = await provider.embedTexts(batch, purpose, signal);
+    batch.forEach((text, index) => {
+      vectors.set(text, batchVectors[index]);
+      fresh.set(getCacheKey(model, purpose, text), batchVectors[index]);
+    });
+  }
+  if (fresh.size > 0) {
+    saveEmbeddings(fresh).catch((error) =>
+      console.error('Failed to cache embeddings:', error),
+    );
+  }
+  return vectors;
+}
+
+/**
+ * Ranks videos by meaning rather than wording: the query and every
+ * description are embedded, and the closest descriptions win.
+ */
+export async function semanticSearch(
+  videos: Video[],
+  query: string,
+  signal?: AbortSignal,
+): Promise<SearchResult[]> {
+  const descriptionVectors = await embedWithCache(
+    videos.map((video) => video.description),
+    'document',
+    signal,
+  );
+  const queryVectors = await embedWithCache([query], 'query', signal);
+
+  const vectorsById = new Map<string, number[]>();
+  for (const video of videos) {
+    vectorsById.set(video.id, descriptionVectors.get(video.description));
+  }
+  const results = rankByEmbedding(
+    videos,
+    vectorsById,
+    queryVectors.get(query),
+  );
+  const minScore = (results[0]?.score ?? 0) * RELATIVE_MIN_SCORE;
+  return results.filter(
+    (result) => result.score > 0 && result.score >= minScore,
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {describe, expect, it} from 'vitest';
+import {diffWords} from './textDiff';
+
+describe('diffWords', () => {
+  it('reports identical texts as unchanged', () => {
+    expect(diffWords('a red fox', 'a red fox')).toEqual([
+      {type: 'same', text: 'a red fox'},
+    ]);
+  });
+
+  it('marks replaced words as removed and added', () => {
+    expect(diffWords('a red fox', 'a blue fox')).toEqual([
+      {type: 'same', text: 'a '},
+      {type: 'removed', text: 'red'},
+      {type: 'added', text: 'blue'},
+      {type: 'same', text: ' fox'},
+    ]);
+  });
+
+  it('handles text added at the end or removed from the start', () => {
+    expect(diffWords('the fox', 'the fox jumps')).toEqual([
+      {type: 'same', text: 'the fox'},
+      {type: 'added', text: ' jumps'},
+    ]);
+    expect(diffWords('quick fox', 'fox')).toEqual([
+      {type: 'removed', text: 'quick '},
+      {type: 'same', text: 'fox'},
+    ]);
+  });
+
+  it('handles empty texts', () => {
+    expect(diffWords('', 'new')).toEqual([{type: 'added', text: 'new'}]);
+    expect(diffWords('old', '')).toEqual([{type: 'removed', text: 'old'}]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
@@ -6,21 +6,255 @@
  * Interface defining the structure of a video object, including its ID, URL,
  * title, and description.
  */
-export interface Video {
+export interface Video extends VideoAnnotations {
   id: string;
-  videoUrl: string;
+  /**
+   * Where a seed video is streamed from. The user's own videos have none;
+   * their binaries are held by the media store.
+   */
+  videoUrl?: string;
   title: string;
   description: string;
+  /** Image shown before playback, e.g. the still an animation started from. */
+  poster?: string;
+  /** The video this one was remixed, started or continued from. */
+  parentId?: string;
+  /** When the video was added to the library, in ms since the epoch. */
+  createdAt?: number;
+  /** How the video was generated; absent for seed and uploaded videos. */
+  generation?: GenerationInfo;
+  /** Set while an upload's description is being written, or if that failed. */
+  captionStatus?: CaptionStatus;
+  /** Shared by the variations that were generated together. */
+  batchId?: string;
+  /** Archived videos are hidden from the gallery unless asked for. */
+  isArchived?: boolean;
+}
+
+export type CaptionStatus = 'pending' | 'failed';
+
+/** How the user has organized a video. */
+export interface VideoAnnotations {
+  tags?: string[];
+  isFavorite?: boolean;
+  /** From 1 to 5 stars; absent when unrated. */
+  rating?: number;
+}
+
+/** Where a video came from. */
+export type VideoSource = 'seed' | 'uploaded' | 'generated';
+
+/** A named group of videos. A video can be in any number of collections. */
+export interface Collection {
+  id: string;
+  name: string;
+  videoIds: string[];
+  createdAt: number;
+}
+
+export type AspectRatio = '16:9' | '9:16' | '1:1';
+
+export type GenerationQuality = 'fast' | 'quality';
+
+export type GenerationDuration = 'short' | 'medium' | 'long';
+
+/** Whether people may appear in the generated video. */
+export type PersonGeneration = 'allow_all' | 'allow_adult' | 'dont_allow';
+
+export type Resolution = '720p' | '1080p';
+
+/** The settings a generation is requested with. */
+export interface GenerationOptions {
+  numberOfVideos: number;
+  aspectRatio: AspectRatio;
+  quality?: GenerationQuality;
+  duration?: GenerationDuration;
+  /** What the video should not contain. */
+  negativePrompt?: string;
+  /** Fixes the model's randomness so the same request gives the same take. */
+  seed?: number;
+  personGeneration?: PersonGeneration;
+  resolution?: Resolution;
+}
+
+/** The settings a model accepts; anything else is shown as unavailable. */
+export interface ModelCapabilities {
+  aspectRatios: AspectRatio[];
+  durations: GenerationDuration[];
+  resolutions: Resolution[];
+  /** Whether a seed can be set to reproduce a take. */
+  seed: boolean;
+  /** The people settings accepted when generating from a prompt alone. */
+  textPersonGenerations: PersonGeneration[];
+  /** The people settings accepted when starting from an image. */
+  imagePersonGenerations: PersonGeneration[];
+}
+
+/** What was sent to the model to generate a video. */
+export interface GenerationInfo {
+  prompt: string;
+  /** The change asked for in the remix editor, if any. */
+  editInstruction?: string;
+  options: GenerationOptions;
+  model: string;
+}
+
+/** An image as sent to the model: base64-encoded bytes and their type. */
+export interface ImageInput {
+  imageBytes: string;
+  mimeType: string;
+}
+
+export type MaskTool = 'brush' | 'eraser' | 'rectangle' | 'ellipse';
+
+/**
+ * A point on the video picture in normalized coordinates: (0, 0) is its
+ * top-left corner and (1, 1) its bottom-right, whatever its display size.
+ */
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * One drawing operation in the mask editor. Brush and eraser `size` is a
+ * fraction of the picture width.
+ */
+export type MaskShape =
+  | {tool: 'brush' | 'eraser'; size: number; points: MaskPoint[]}
+  | {tool: 'rectangle' | 'ellipse'; from: MaskPoint; to: MaskPoint};
+
+/** The shapes of the mask at one point of the clip, in seconds. */
+export interface MaskKeyframe {
+  time: number;
+  shapes: MaskShape[];
+}
+
+/** The part of the clip, in seconds, that a region edit applies to. */
+export interface MaskTimeRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * `insert` puts what the prompt describes into the masked area; `remove`
+ * takes the masked object out of the video.
+ */
+export type RegionEditMode = 'insert' | 'remove';
+
+/**
+ * A region edit drawn in the remix editor: a frame of the source video and a
+ * binary mask of the same size, white where the user drew. The frame is taken
+ * at the start of `timeRange` when the edit only applies to part of the clip.
+ */
+export interface RegionEdit {
+  frame: ImageInput;
+  mask: ImageInput;
+  mode: RegionEditMode;
+  timeRange?: MaskTimeRange;
 }
 
 export type ErrorType =
   | 'api_key'
+  | 'quota'
+  | 'invalid_request'
+  | 'safety_filtered'
   | 'generation_failed'
+  | 'server'
   | 'network'
+  | 'offline'
+  | 'timeout'
+  | 'cancelled'
   | 'unknown';
 
 export interface ErrorDetails {
   title: string;
   messages: string[];
   type: ErrorType;
+  safety?: SafetyFilterReport;
+}
+
+/** The variations the model's safety filters held back, and why. */
+export interface SafetyFilterReport {
+  filteredCount: number;
+  requestedCount: number;
+  /** As worded by the model, e.g. naming the kind of content that tripped it. */
+  reasons: string[];
+}
+
+/** A generation that failed or was partly filtered, kept to learn from. */
+export interface FailedAttempt {
+  /** The id of the job that failed. */
+  id: string;
+  prompt: string;
+  title: string;
+  error: ErrorDetails;
+  failedAt: number;
+}
+
+/**
+ * A Gemini API key added in the settings. Session-only keys are kept until
+ * the browser tab is closed, the others until they are forgotten.
+ */
+export interface ApiKeyEntry {
+  id: string;
+  label: string;
+  key: string;
+  sessionOnly: boolean;
+  addedAt: number;
+}
+
+export type GenerationJobStatus =
+  | 'waiting'
+  | 'queued'
+  | 'polling'
+  | 'downloading'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * What to generate: the prompt and settings sent to the model and the title,
+ * description and parent given to the resulting videos. `image`, if set, is
+ * used as the first frame and becomes the poster of the resulting videos.
+ */
+export interface GenerationRequest extends GenerationOptions {
+  prompt: string;
+  title: string;
+  description: string;
+  parentId?: string;
+  editInstruction?: string;
+  image?: ImageInput;
+  regionEdit?: RegionEdit;
+}
+
+/**
+ * A generation request tracked by the background queue. `retryAt` is set
+ * while the job waits to be retried, `operationName` and `startedAt` once the
+ * model accepted the request, `videoIds` once the job is done and `error`
+ * once it has failed, or when it is done but some of its variations were
+ * filtered.
+ */
+export interface GenerationJob extends GenerationRequest {
+  id: string;
+  status: GenerationJobStatus;
+  videoIds: string[];
+  /** When a waiting job is queued, in ms since the epoch. */
+  retryAt?: number;
+  operationName?: string;
+  startedAt?: number;
+  error?: ErrorDetails;
+}
+
+/**
+ * A prompt split into the parts the gallery's prompts are written from. Each
+ * dialogue line is the whole sentence, so the speaker and delivery are kept.
+ */
+export interface PromptParts {
+  style: string;
+  scene: string;
+  subjects: string;
+  camera: string;
+  dialogue: string[];
+  audio: string;
 }
@@ -4,15 +4,23 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    const isProxyMode = env.GENERATION_PROVIDER === 'proxy';
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
+        // In proxy mode the app's calls go to the proxy server (server/),
+        // which holds the key, so only this machine may reach the app.
+        host: isProxyMode ? '127.0.0.1' : '0.0.0.0',
+        proxy: isProxyMode
+          ? { '/api': `http://127.0.0.1:${env.PROXY_PORT || 8787}` }
+          : undefined,
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GENERATION_PROVIDER': JSON.stringify(env.GENERATION_PROVIDER),
+        'process.env.PROXY_URL': JSON.stringify(env.PROXY_URL),
+        'process.env.MOCK_GENERATION_DELAY_MS': JSON.stringify(env.MOCK_GENERATION_DELAY_MS),
+        'process.env.MOCK_FAILURE_RATE': JSON.stringify(env.MOCK_FAILURE_RATE)
       },
       resolve: {
         alias: {